@@ -0,0 +1,53 @@
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_STORE_PATH = path.join(__dirname, 'data', 'contact-submissions.jsonl');
+
+/**
+ * Contact submissions kept as JSON lines, one record per message, for later review.
+ * Appends are serialized so concurrent submissions never interleave.
+ */
+class ContactStore {
+  constructor(filePath = process.env.CONTACT_STORE_PATH || DEFAULT_STORE_PATH) {
+    this.filePath = filePath;
+    this.writing = Promise.resolve();
+  }
+
+  add(record) {
+    const write = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+    });
+    // Keep the queue going after a failed write
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Stored submissions, newest first
+   */
+  async list({ limit = 50, offset = 0 } = {}) {
+    let content;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return { total: 0, submissions: [] };
+      }
+      throw error;
+    }
+
+    const records = content.split('\n').filter(Boolean).flatMap((line) => {
+      try {
+        return [JSON.parse(line)];
+      } catch (_error) {
+        return [];
+      }
+    }).reverse();
+    return { total: records.length, submissions: records.slice(offset, offset + limit) };
+  }
+}
+
+module.exports = {
+  ContactStore
+};
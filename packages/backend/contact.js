@@ -0,0 +1,175 @@
+const crypto = require('crypto');
+const express = require('express');
+const { logger } = require('./logger');
+const { metrics } = require('./metrics');
+
+// Field limits, mirrored by the frontend form
+const LIMITS = { name: 100, email: 254, subject: 150, message: 5000 };
+const MIN_MESSAGE_LENGTH = 10;
+
+// Hidden from people, filled in by bots
+const HONEYPOT_FIELD = 'website';
+
+// Same rule as SecurityService.isValidEmail; no whitespace, so no header injection either
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const MAX_BODY = '16kb';
+
+const DEFAULT_FROM = 'Portfolio Contact <no-reply@localhost>';
+const DEFAULT_TO = 'portfolio@localhost';
+
+/**
+ * Drop control characters, keeping newlines and tabs where multi-line text is allowed
+ */
+function cleanText(value, multiline) {
+  const text = multiline ? String(value).replace(/\r\n?/g, '\n') : String(value).replace(/\s+/g, ' ');
+  const kept = [...text].filter((char) => {
+    const code = char.charCodeAt(0);
+    return (code >= 32 && code !== 127) || (multiline && (char === '\n' || char === '\t'));
+  }).join('');
+  return kept.trim();
+}
+
+/**
+ * Server-side validation; returns the cleaned submission, per-field errors, or spam for honeypot hits
+ */
+function validateSubmission(body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { errors: { form: 'Expected a JSON object' } };
+  }
+  if (typeof body[HONEYPOT_FIELD] === 'string' && body[HONEYPOT_FIELD].trim() !== '') {
+    return { spam: true };
+  }
+
+  const read = (field, multiline = false) => (typeof body[field] === 'string' ? cleanText(body[field], multiline) : '');
+  const submission = {
+    name: read('name'),
+    email: read('email'),
+    subject: read('subject'),
+    message: read('message', true)
+  };
+
+  const errors = {};
+  if (!submission.name) {
+    errors.name = 'Please enter your name';
+  } else if (submission.name.length > LIMITS.name) {
+    errors.name = `Name must be at most ${LIMITS.name} characters`;
+  }
+  if (!EMAIL_PATTERN.test(submission.email) || submission.email.length > LIMITS.email) {
+    errors.email = 'Please enter a valid email address';
+  }
+  if (submission.subject.length > LIMITS.subject) {
+    errors.subject = `Subject must be at most ${LIMITS.subject} characters`;
+  }
+  if (submission.message.length < MIN_MESSAGE_LENGTH) {
+    errors.message = `Message must be at least ${MIN_MESSAGE_LENGTH} characters`;
+  } else if (submission.message.length > LIMITS.message) {
+    errors.message = `Message must be at most ${LIMITS.message} characters`;
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { submission };
+}
+
+/**
+ * Contact form endpoint: `POST /api/contact` with { name, email, subject?, message }.
+ * Valid submissions are stored for review and handed to the mail transport;
+ * a stored message counts as received even when delivery fails.
+ *
+ * @param store ContactStore keeping submissions
+ * @param transport MboxTransport or SmtpTransport; null only stores
+ * @param limiter RateLimiter applied per client IP
+ * @param mail { from, to } for delivered messages (CONTACT_FROM / CONTACT_TO)
+ */
+function createContactRouter({ store, transport, limiter, mail = {} }) {
+  const router = express.Router();
+  const from = mail.from || process.env.CONTACT_FROM || DEFAULT_FROM;
+  const to = mail.to || process.env.CONTACT_TO || DEFAULT_TO;
+
+  router.post('/', limiter.middleware((req) => req.ip), express.json({ limit: MAX_BODY }), async (req, res) => {
+    const log = req.log || logger;
+    const { submission, errors, spam } = validateSubmission(req.body);
+
+    // Answer like a success so bots learn nothing
+    if (spam) {
+      metrics.contactSubmissions.inc({ result: 'spam' });
+      log.info('contact honeypot triggered', { ip: req.ip });
+      return res.status(202).json({ status: 'received' });
+    }
+
+    if (errors) {
+      metrics.contactSubmissions.inc({ result: 'invalid' });
+      return res.status(400).json({ error: 'Invalid submission', code: 'CONTACT_INVALID', fields: errors });
+    }
+
+    const record = {
+      id: crypto.randomUUID(),
+      receivedAt: new Date().toISOString(),
+      requestId: req.id,
+      ...submission
+    };
+    record.delivery = await deliver(record, log);
+
+    let stored = true;
+    try {
+      await store.add(record);
+    } catch (error) {
+      stored = false;
+      log.error('contact submission not stored', { id: record.id, error });
+    }
+
+    if (!stored && record.delivery.status !== 'sent') {
+      metrics.contactSubmissions.inc({ result: 'lost' });
+      return res.status(503).json({
+        error: 'Message not received',
+        code: 'CONTACT_UNAVAILABLE',
+        message: 'The message could not be saved or delivered, please try again later'
+      });
+    }
+
+    metrics.contactSubmissions.inc({ result: record.delivery.status });
+    res.status(202).json({ id: record.id, status: 'received' });
+  });
+
+  // Malformed or oversized JSON bodies
+  router.use((error, req, res, next) => {
+    if (error.type === 'entity.parse.failed' || error.type === 'entity.too.large') {
+      return res.status(error.status).json({ error: 'Invalid submission', code: 'CONTACT_INVALID', message: error.message });
+    }
+    next(error);
+  });
+
+  async function deliver(record, log) {
+    if (!transport) {
+      return { status: 'skipped' };
+    }
+
+    try {
+      await transport.send({
+        from,
+        to,
+        replyTo: record.email,
+        subject: `[Portfolio] ${record.subject || `Message from ${record.name}`}`,
+        text: [
+          `Name: ${record.name}`,
+          `Email: ${record.email}`,
+          `Received: ${record.receivedAt}`,
+          `Reference: ${record.id}`,
+          '',
+          record.message
+        ].join('\n')
+      });
+      log.info('contact message delivered', { id: record.id, transport: transport.name });
+      return { status: 'sent', transport: transport.name, at: new Date().toISOString() };
+    } catch (error) {
+      log.error('contact message delivery failed', { id: record.id, transport: transport.name, error });
+      return { status: 'failed', transport: transport.name, error: error.message };
+    }
+  }
+
+  return router;
+}
+
+module.exports = {
+  createContactRouter,
+  validateSubmission
+};
@@ -0,0 +1,180 @@
+const express = require('express');
+const { CONTENT_TYPES } = require('./content-schemas');
+const { computeEtag } = require('./proxy-cache');
+const { ProxyRejectionError } = require('./proxy-allowlist');
+const { DriveError } = require('./drive-adapter');
+const { RateLimitError, sendRateLimited } = require('./rate-limit');
+const { logger } = require('./logger');
+const { AdapterError, UpstreamError, readBody } = require('./upstream');
+
+// Content files are small JSON documents; anything larger is not what we expect
+const MAX_CONTENT_BYTES = 5 * 1024 * 1024;
+
+// Issues reported per failing source (the full list goes to the log)
+const MAX_REPORTED_ISSUES = 10;
+
+const JSON_CONTENT_TYPE = 'application/json; charset=utf-8';
+
+/**
+ * Upstream payload that is not valid JSON or does not match its schema
+ */
+class ContentValidationError extends Error {
+  constructor(message, issues = []) {
+    super(message);
+    this.name = 'ContentValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Content API: `/api/content/:name` serves a data file resolved from the outreach config,
+ * validated against its schema, with cache headers and stale-if-error.
+ *
+ * @param outreachConfig OutreachConfigSource resolving each file's upstream chain
+ * @param fetchUpstream source fetch (allowlisted http(s) or an upstream adapter)
+ * @param cache ProxyCache for validated payloads, keyed by route name
+ */
+function createContentRouter({ outreachConfig, fetchUpstream, cache }) {
+  const router = express.Router();
+
+  // Concurrent requests for the same content share one upstream load
+  const inflight = new Map();
+
+  // Available routes and whether an upstream is configured for them
+  router.get('/', (req, res) => {
+    res.json({
+      content: Object.entries(CONTENT_TYPES).map(([name, type]) => ({
+        name,
+        localPath: type.localPath,
+        configured: outreachConfig.getSources(type.localPath).length > 0
+      }))
+    });
+  });
+
+  router.get('/:name', async (req, res) => {
+    const { name } = req.params;
+    const type = Object.prototype.hasOwnProperty.call(CONTENT_TYPES, name) ? CONTENT_TYPES[name] : null;
+    if (!type) {
+      return res.status(404).json({ error: 'Unknown content', code: 'CONTENT_NOT_FOUND', name });
+    }
+
+    const cached = cache.enabled ? cache.get(name) : null;
+    if (cached && cache.isFresh(cached)) {
+      return cache.respond(req, res, cached, 'HIT');
+    }
+
+    const sources = outreachConfig.getSources(type.localPath);
+    if (sources.length === 0) {
+      return res.status(404).json({
+        error: 'Content not configured',
+        code: 'CONTENT_NOT_CONFIGURED',
+        message: `No upstream configured for ${type.localPath}`
+      });
+    }
+
+    let load = inflight.get(name);
+    if (!load) {
+      load = loadContent(name, type, sources, req.log || logger).finally(() => inflight.delete(name));
+      inflight.set(name, load);
+    }
+
+    const { entry, failures, rateLimitError } = await load;
+    if (entry) {
+      return cache.respond(req, res, entry, 'MISS');
+    }
+
+    if (cached) {
+      (req.log || logger).warn('serving stale content', { content: name, failedSources: failures.length });
+      cache.markStaleServed();
+      return cache.respond(req, res, cached, 'STALE');
+    }
+
+    // Every source was throttled: tell the client when to come back instead of failing hard
+    if (rateLimitError && failures.every((failure) => failure.code === 'RATE_LIMITED')) {
+      return sendRateLimited(res, rateLimitError);
+    }
+
+    const invalid = failures.some((failure) => failure.code === 'CONTENT_INVALID');
+    res.set('Cache-Control', 'no-store');
+    res.status(502).json({
+      error: 'Content unavailable',
+      code: invalid ? 'CONTENT_INVALID' : 'UPSTREAM_UNAVAILABLE',
+      message: `No source for ${name} returned valid content`,
+      sources: failures
+    });
+  });
+
+  /**
+   * Try each source in order; resolves with the stored entry or the per-source failures
+   */
+  async function loadContent(name, type, sources, log) {
+    const failures = [];
+    let rateLimitError = null;
+
+    for (const source of sources) {
+      try {
+        const { data, date } = await fetchJson(source, log);
+        const issues = type.validate(data);
+        if (issues.length > 0) {
+          log.warn('content failed validation', { content: name, source: source.url, issues });
+          throw new ContentValidationError(`${issues.length} schema issue(s)`, issues);
+        }
+
+        const body = Buffer.from(JSON.stringify(data));
+        const headers = { 'content-type': JSON_CONTENT_TYPE, date };
+        log.info('content loaded', { content: name, source: source.url, bytes: body.length });
+        return { entry: cache.set(name, headers, body) || transientEntry(name, headers, body), failures };
+      } catch (error) {
+        log.warn('content source failed', { content: name, source: source.url, error });
+        failures.push(describeFailure(source.url, error));
+        if (error instanceof RateLimitError) {
+          rateLimitError = error;
+        }
+      }
+    }
+
+    return { entry: null, failures, rateLimitError };
+  }
+
+  async function fetchJson(source, log) {
+    const response = await fetchUpstream(source.url, { timeoutMs: source.timeoutMs, log });
+    if (response.statusCode !== 200) {
+      response.resume();
+      throw new UpstreamError(`Upstream status ${response.statusCode}`, response.statusCode);
+    }
+
+    const text = (await readBody(response, MAX_CONTENT_BYTES)).toString('utf8').replace(/^\uFEFF/, '');
+    try {
+      return { data: JSON.parse(text), date: response.headers.date };
+    } catch (_error) {
+      throw new ContentValidationError('Response is not valid JSON');
+    }
+  }
+
+  return router;
+}
+
+/**
+ * Entry for a response that was not stored (cache disabled or not storable)
+ */
+function transientEntry(name, headers, body) {
+  const now = Date.now();
+  return { url: name, body, headers, etag: computeEtag(body), validatedAt: now, expiresAt: now };
+}
+
+function describeFailure(url, error) {
+  if (error instanceof ContentValidationError) {
+    return { url, code: 'CONTENT_INVALID', message: error.message, issues: error.issues.slice(0, MAX_REPORTED_ISSUES) };
+  }
+  if (error instanceof RateLimitError) {
+    return { url, code: 'RATE_LIMITED', message: error.message, retryAfter: error.retryAfterSeconds };
+  }
+  if (error instanceof ProxyRejectionError || error instanceof DriveError || error instanceof AdapterError) {
+    return { url, code: error.code, message: error.message };
+  }
+  return { url, code: 'UPSTREAM_ERROR', message: error.message };
+}
+
+module.exports = {
+  createContentRouter
+};
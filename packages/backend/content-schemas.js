@@ -0,0 +1,210 @@
+// Runtime schemas for the content API.
+// Mirrors packages/frontend/src/app/models/data-schemas.ts, which is typed against the
+// frontend interfaces; change both together so the API never serves what the app rejects.
+// Both are tested against the same cases in data-schemas.fixtures.json next to it.
+
+// ==========================================
+// VALIDATION PRIMITIVES
+// ==========================================
+
+const joinPath = (parent, key) =>
+  typeof key === 'number' ? `${parent}[${key}]` : (parent ? `${parent}.${key}` : key);
+
+const describe = (value) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const typeCheck = (expected) => (value, path, issues) => {
+  if (typeof value !== expected) {
+    issues.push({ path, message: `expected ${expected}, got ${describe(value)}` });
+  }
+};
+
+const str = typeCheck('string');
+const num = typeCheck('number');
+const bool = typeCheck('boolean');
+
+const oneOf = (...allowed) => (value, path, issues) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push({ path, message: `expected one of ${allowed.join(' | ')}, got ${JSON.stringify(value)}` });
+  }
+};
+
+const optional = (check) => (value, path, issues) => {
+  if (value !== undefined && value !== null) {
+    check(value, path, issues);
+  }
+};
+
+const anyObject = (value, path, issues) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path, message: `expected object, got ${describe(value)}` });
+  }
+};
+
+const arrayOf = (check) => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected array, got ${describe(value)}` });
+    return;
+  }
+  value.forEach((item, index) => check(item, joinPath(path, index), issues));
+};
+
+const objectOf = (shape) => (value, path, issues) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path: path || '(root)', message: `expected object, got ${describe(value)}` });
+    return;
+  }
+  Object.keys(shape).forEach((key) => shape[key](value[key], joinPath(path, key), issues));
+};
+
+/**
+ * Build a validator returning every failing field; an empty list means the value is valid
+ */
+const defineValidator = (shape) => {
+  const check = objectOf(shape);
+  return (value) => {
+    const issues = [];
+    check(value, '', issues);
+    return issues;
+  };
+};
+
+// ==========================================
+// DATA FILE SCHEMAS
+// ==========================================
+
+const sectionTitle = objectOf({
+  title: str,
+  description: str
+});
+
+const portfolioCardContent = objectOf({
+  type: oneOf('image', 'video', 'iframe', 'html', 'canvas', 'component'),
+  content: str,
+  attributes: optional(anyObject)
+});
+
+const portfolioMediaItem = objectOf({
+  type: oneOf('image', 'video', 'iframe'),
+  src: str,
+  caption: optional(str)
+});
+
+const portfolioProject = objectOf({
+  id: str,
+  title: str,
+  description: str,
+  longDescription: optional(str),
+  gallery: optional(arrayOf(portfolioMediaItem)),
+  background: optional(portfolioCardContent),
+  link: optional(str),
+  target: optional(str),
+  category: str,
+  interactive: optional(bool),
+  metadata: optional(objectOf({
+    tech: optional(arrayOf(str)),
+    year: optional(str),
+    status: optional(oneOf('completed', 'in-progress', 'archived')),
+    featured: optional(bool)
+  }))
+});
+
+const validatePortfolio = defineValidator({
+  sectionHeader: sectionTitle,
+  categories: optional(arrayOf(objectOf({
+    id: str,
+    label: str,
+    isDefault: optional(bool)
+  }))),
+  projects: arrayOf(portfolioProject),
+  metadata: optional(objectOf({
+    defaultFilter: str,
+    sortBy: str,
+    animationType: str
+  }))
+});
+
+const validateSkills = defineValidator({
+  sectionHeader: objectOf({
+    title: str,
+    description: str,
+    casualPitch: str,
+    toolkitNote: str
+  }),
+  skills: arrayOf(objectOf({
+    label: str,
+    skills: str
+  })),
+  metadata: objectOf({
+    displayMode: optional(str),
+    itemsPerRow: optional(objectOf({
+      desktop: num,
+      mobile: num
+    })),
+    orbits: optional(arrayOf(str)),
+    orbitConfig: optional(objectOf({
+      maxOrbits: num,
+      size: objectOf({ startSize: num, endSize: num, minSize: num }),
+      animation: objectOf({ baseDuration: num, durationRange: num }),
+      direction: oneOf('alternating', 'clockwise', 'counterclockwise')
+    })),
+    cv: optional(objectOf({
+      url: str,
+      enabled: bool
+    }))
+  })
+});
+
+const validateAboutContent = defineValidator({
+  sectionHeader: sectionTitle,
+  contentBlocks: arrayOf(objectOf({
+    id: str,
+    timeline: objectOf({ title: str, date: str, icon: str }),
+    image: objectOf({ src: str, alt: str }),
+    content: objectOf({ type: str, text: str })
+  })),
+  metadata: optional(objectOf({
+    alternationPattern: str,
+    mobileLayout: str,
+    startPosition: str
+  }))
+});
+
+const validatePersonalInfo = defineValidator({
+  name: str,
+  title: str,
+  profile: objectOf({
+    image: objectOf({ src: str, alt: str })
+  }),
+  career: objectOf({ startYear: num }),
+  location: objectOf({ current: str, origin: str }),
+  institution: objectOf({ name: str, fullName: str, university: str }),
+  stats: arrayOf(objectOf({ label: str, value: str })),
+  contact: objectOf({
+    email: str,
+    social: arrayOf(objectOf({
+      platform: str,
+      title: str,
+      description: str,
+      href: str,
+      icon: str,
+      color: str,
+      external: bool
+    }))
+  }),
+  bio: objectOf({ tagline: str, summary: str, author: str })
+});
+
+/**
+ * Content API routes: route name → the frontend asset it replaces and its validator
+ */
+const CONTENT_TYPES = {
+  portfolio: { localPath: '/assets/data/portfolio.json', validate: validatePortfolio },
+  skills: { localPath: '/assets/data/skills.json', validate: validateSkills },
+  about: { localPath: '/assets/data/about-content.json', validate: validateAboutContent },
+  'personal-info': { localPath: '/assets/data/personal-info.json', validate: validatePersonalInfo }
+};
+
+module.exports = {
+  CONTENT_TYPES
+};
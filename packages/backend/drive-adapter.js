@@ -0,0 +1,256 @@
+const { URL } = require('url');
+const { ProxyRejectionError } = require('./proxy-allowlist');
+const { logger } = require('./logger');
+const { metrics } = require('./metrics');
+const { AdapterError, readBody } = require('./upstream');
+
+// Hosts serving Drive files: share links, the legacy uc endpoint and direct downloads
+const DRIVE_HOSTS = new Set(['drive.google.com', 'docs.google.com', 'drive.usercontent.google.com']);
+
+const DOWNLOAD_URL = 'https://drive.usercontent.google.com/download';
+
+// Where private files send anonymous visitors
+const SIGN_IN_HOST = 'accounts.google.com';
+
+// Confirmation and error pages are small; anything bigger is not a page we can parse
+const MAX_PAGE_BYTES = 1024 * 1024;
+
+const FILE_ID_PATTERN = /^[\w-]{10,}$/;
+
+/**
+ * Drive link that could not be turned into the file's content
+ */
+class DriveError extends Error {
+  constructor(code, message, status = 502) {
+    super(message);
+    this.name = 'DriveError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+function isDriveUrl(rawUrl) {
+  try {
+    return DRIVE_HOSTS.has(new URL(rawUrl).hostname.toLowerCase());
+  } catch (_error) {
+    return false;
+  }
+}
+
+/**
+ * File ID from the Drive URL shapes people paste:
+ * - /file/d/<id>/view (also /edit, /preview and /u/<n>/ account prefixes)
+ * - /open?id=<id>
+ * - /uc?id=<id>&export=download, on drive.google.com or docs.google.com
+ * - drive.usercontent.google.com/download?id=<id>
+ */
+function extractDriveFileId(rawUrl) {
+  const parsedUrl = new URL(rawUrl);
+  const pathMatch = parsedUrl.pathname.match(/^\/file\/(?:u\/\d+\/)?d\/([^/]+)/);
+  const id = pathMatch ? pathMatch[1] : parsedUrl.searchParams.get('id');
+  return id && FILE_ID_PATTERN.test(id) ? id : null;
+}
+
+/**
+ * Direct-download URL for a file; the resource key is kept for links shared before Drive's 2021 security update
+ */
+function toDirectDownloadUrl(rawUrl) {
+  const id = extractDriveFileId(rawUrl);
+  if (!id) {
+    throw new DriveError('DRIVE_INVALID_URL', `Not a Drive file link: ${rawUrl}`, 400);
+  }
+
+  const downloadUrl = new URL(DOWNLOAD_URL);
+  downloadUrl.searchParams.set('id', id);
+  downloadUrl.searchParams.set('export', 'download');
+  const resourceKey = new URL(rawUrl).searchParams.get('resourcekey');
+  if (resourceKey) {
+    downloadUrl.searchParams.set('resourcekey', resourceKey);
+  }
+  return downloadUrl.href;
+}
+
+function isHtmlPage(response) {
+  return /^\s*text\/html/i.test(response.headers['content-type'] || '');
+}
+
+function decodeEntities(value) {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function readAttribute(tag, name) {
+  const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`, 'i'));
+  return match ? decodeEntities(match[1]) : null;
+}
+
+/**
+ * The request that gets past the "can't scan this file for viruses" page, or null when the page isn't one.
+ *
+ * Current pages hold a GET form with hidden id/export/confirm/uuid fields; older ones link to
+ * /uc?...&confirm=<token> or only set a download_warning cookie carrying the token.
+ */
+function findConfirmation(html, response, pageUrl) {
+  const forms = html.match(/<form\b[^>]*>[\s\S]*?<\/form>/gi) || [];
+  for (const form of forms) {
+    const fields = (form.match(/<input\b[^>]*>/gi) || [])
+      .map((input) => [readAttribute(input, 'name'), readAttribute(input, 'value') ?? ''])
+      .filter(([name]) => name);
+    if (!fields.some(([name]) => name === 'confirm')) {
+      continue;
+    }
+    const confirmUrl = new URL(readAttribute(form, 'action') || DOWNLOAD_URL, pageUrl);
+    fields.forEach(([name, value]) => confirmUrl.searchParams.set(name, value));
+    return { url: confirmUrl.href, headers: {} };
+  }
+
+  const link = html.match(/href="([^"]*\/uc\?[^"]*confirm=[^"]*)"/i);
+  if (link) {
+    return { url: new URL(decodeEntities(link[1]), pageUrl).href, headers: {} };
+  }
+
+  const cookies = [].concat(response.headers['set-cookie'] || []).map((cookie) => cookie.split(';')[0]);
+  const warning = cookies.find((cookie) => cookie.startsWith('download_warning'));
+  if (warning) {
+    const confirmUrl = new URL(pageUrl);
+    confirmUrl.searchParams.set('confirm', warning.slice(warning.indexOf('=') + 1));
+    return { url: confirmUrl.href, headers: { cookie: cookies.join('; ') } };
+  }
+
+  return null;
+}
+
+/**
+ * Typed error for an HTML page that is not a download confirmation
+ */
+function describePage(html, status, id) {
+  if (/download quota|too many users have viewed or downloaded/i.test(html)) {
+    return new DriveError('DRIVE_QUOTA_EXCEEDED', `Download quota exceeded for Drive file ${id}`, 503);
+  }
+  if (status === 401 || status === 403 || /accounts\.google\.com\/(?:ServiceLogin|v3\/signin)|you need access/i.test(html)) {
+    return accessDenied(id);
+  }
+  return new DriveError('DRIVE_UNEXPECTED_HTML', `Drive returned an HTML page (status ${status}) instead of file ${id}`);
+}
+
+function accessDenied(id) {
+  return new DriveError('DRIVE_ACCESS_DENIED', `Drive file ${id} is not shared publicly`, 403);
+}
+
+/**
+ * Wrap an upstream fetch so Google Drive links resolve to the file itself.
+ *
+ * Share, view and uc links are rewritten to the direct-download endpoint and the large-file
+ * confirmation page is followed once. The result is the file's response (body not yet consumed)
+ * or a DriveError, never an HTML page. Other URLs go straight to fetchUpstream.
+ *
+ * @param fetchUpstream allowlisted fetch from createUpstreamFetcher
+ */
+function withDriveSupport(fetchUpstream) {
+  async function fetchDriveFile(url, options = {}) {
+    const log = options.log || logger;
+    let id = null;
+
+    try {
+      const downloadUrl = toDirectDownloadUrl(url);
+      id = extractDriveFileId(downloadUrl);
+
+      const response = await requestFile(downloadUrl, options, id);
+      if (!isHtmlPage(response)) {
+        return response;
+      }
+
+      const html = await readPage(response);
+      const confirmation = findConfirmation(html, response, downloadUrl);
+      if (!confirmation) {
+        throw describePage(html, response.statusCode, id);
+      }
+
+      log.debug('following drive download confirmation', { id, confirmUrl: confirmation.url });
+      const confirmed = await requestFile(confirmation.url, {
+        ...options,
+        headers: { ...options.headers, ...confirmation.headers }
+      }, id);
+      if (!isHtmlPage(confirmed)) {
+        return confirmed;
+      }
+
+      const error = describePage(await readPage(confirmed), confirmed.statusCode, id);
+      throw error.code === 'DRIVE_UNEXPECTED_HTML'
+        ? new DriveError('DRIVE_CONFIRM_FAILED', `Drive did not release file ${id} after confirmation`)
+        : error;
+    } catch (error) {
+      if (error instanceof DriveError) {
+        metrics.upstreamErrors.inc({ class: 'drive' });
+        log.warn('drive download failed', { url, id, code: error.code, reason: error.message });
+      }
+      throw error;
+    }
+  }
+
+  async function requestFile(url, options, id) {
+    let response;
+    try {
+      response = await fetchUpstream(url, options);
+    } catch (error) {
+      // Private files redirect to the sign-in page, which is (rightly) not on the allowlist
+      if (error instanceof ProxyRejectionError && error.hostname === SIGN_IN_HOST) {
+        throw accessDenied(id);
+      }
+      throw error;
+    }
+
+    if (response.statusCode === 404) {
+      response.resume();
+      throw new DriveError('DRIVE_NOT_FOUND', `Drive file ${id} does not exist`, 404);
+    }
+    return response;
+  }
+
+  async function readPage(response) {
+    try {
+      return (await readBody(response, MAX_PAGE_BYTES)).toString('utf8');
+    } catch (_error) {
+      throw new DriveError('DRIVE_UNEXPECTED_HTML', 'Drive returned an HTML page too large to inspect');
+    }
+  }
+
+  return function fetchWithDrive(url, options = {}) {
+    return isDriveUrl(url) ? fetchDriveFile(url, options) : fetchUpstream(url, options);
+  };
+}
+
+/**
+ * `drive://<file id>` sources: public files, fetched like a share link
+ *
+ * @param fetchUpstream fetch wrapped with withDriveSupport
+ */
+function createDriveAdapter(fetchUpstream) {
+  return {
+    scheme: 'drive:',
+    endpoint: new URL(DOWNLOAD_URL).origin,
+    configured: true,
+    authenticated: false,
+
+    fetch(url, options = {}) {
+      const match = url.match(/^drive:\/\/([\w-]{10,})\/?$/);
+      if (!match) {
+        throw new AdapterError('ADAPTER_INVALID_URL', `Expected drive://<file id>, got ${url}`, 400);
+      }
+      return fetchUpstream(`${DOWNLOAD_URL}?id=${match[1]}&export=download`, options);
+    }
+  };
+}
+
+module.exports = {
+  DriveError,
+  createDriveAdapter,
+  extractDriveFileId,
+  isDriveUrl,
+  toDirectDownloadUrl,
+  withDriveSupport
+};
@@ -0,0 +1,62 @@
+const { AdapterError } = require('./upstream');
+
+const DEFAULT_CONTENT_URL = 'https://content.dropboxapi.com';
+
+// dropbox://path/in/account.json (relative to the token's root, i.e. the app folder for scoped apps)
+const DROPBOX_URL_PATTERN = /^dropbox:\/\/(.+)$/i;
+
+function parseDropboxUrl(url) {
+  const match = url.match(DROPBOX_URL_PATTERN);
+  if (!match) {
+    throw new AdapterError('ADAPTER_INVALID_URL', `Expected dropbox://path/to/file, got ${url}`, 400);
+  }
+  return { path: `/${match[1].replace(/^\/+/, '')}` };
+}
+
+/**
+ * Dropbox-API-Arg must be ASCII: escape everything else as \uXXXX
+ */
+function toHeaderJson(value) {
+  return JSON.stringify(value).replace(/[\u007f-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+/**
+ * `dropbox://` sources, downloaded with DROPBOX_ACCESS_TOKEN.
+ * DROPBOX_CONTENT_URL points at a local stub.
+ *
+ * @param createFetcher (endpoint) => fetch limited to that endpoint
+ */
+function createDropboxAdapter(createFetcher, env = process.env) {
+  const endpoint = (env.DROPBOX_CONTENT_URL || DEFAULT_CONTENT_URL).replace(/\/+$/, '');
+  const token = env.DROPBOX_ACCESS_TOKEN || '';
+  const fetchEndpoint = createFetcher(endpoint);
+
+  return {
+    scheme: 'dropbox:',
+    endpoint,
+    configured: Boolean(token),
+    authenticated: Boolean(token),
+
+    fetch(url, options = {}) {
+      const { path } = parseDropboxUrl(url);
+      if (!token) {
+        throw new AdapterError('ADAPTER_NOT_CONFIGURED', 'dropbox:// sources need DROPBOX_ACCESS_TOKEN', 503);
+      }
+
+      // Content endpoints accept GET, which keeps ETag revalidation working
+      return fetchEndpoint(`${endpoint}/2/files/download`, {
+        ...options,
+        headers: {
+          ...options.headers,
+          'Authorization': `Bearer ${token}`,
+          'Dropbox-API-Arg': toHeaderJson({ path })
+        }
+      });
+    }
+  };
+}
+
+module.exports = {
+  createDropboxAdapter,
+  parseDropboxUrl
+};
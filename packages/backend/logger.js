@@ -0,0 +1,70 @@
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const MIN_LEVEL = LEVELS[(process.env.LOG_LEVEL || 'info').toLowerCase()] || LEVELS.info;
+
+/**
+ * Plain-object form of an error for JSON output
+ */
+function serializeError(error) {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+  const serialized = { name: error.name, message: error.message };
+  if (error.code) serialized.code = error.code;
+  if (error.status) serialized.status = error.status;
+  return serialized;
+}
+
+/**
+ * Structured logger writing one JSON object per line.
+ * `child()` adds bindings (e.g. requestId) to every line it writes.
+ */
+class Logger {
+  constructor(bindings = {}) {
+    this.bindings = bindings;
+  }
+
+  child(bindings) {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(msg, fields) {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg, fields) {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg, fields) {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg, fields) {
+    this.write('error', msg, fields);
+  }
+
+  write(level, msg, fields = {}) {
+    if (LEVELS[level] < MIN_LEVEL) {
+      return;
+    }
+
+    const entry = { time: new Date().toISOString(), level, msg, ...this.bindings };
+    Object.entries(fields).forEach(([key, value]) => {
+      entry[key] = serializeError(value);
+    });
+
+    const line = `${JSON.stringify(entry)}\n`;
+    if (LEVELS[level] >= LEVELS.warn) {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
+
+const logger = new Logger({ service: 'proxy-server' });
+
+module.exports = {
+  logger
+};
@@ -0,0 +1,293 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+const tls = require('tls');
+
+const DEFAULT_MBOX_PATH = path.join(__dirname, 'data', 'contact.mbox');
+
+const SMTP_TIMEOUT_MS = 15000;
+
+/**
+ * Message could not be handed to the mail transport
+ */
+class MailTransportError extends Error {
+  constructor(message, code = null) {
+    super(message);
+    this.name = 'MailTransportError';
+    this.code = code;
+  }
+}
+
+// ==========================================
+// MESSAGE FORMAT
+// ==========================================
+
+/**
+ * Header values are single lines: a CR or LF would start a header of its own (header injection)
+ */
+function headerLine(value) {
+  return String(value).replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * RFC 2047 encoded-word for header values that aren't plain ASCII
+ */
+function encodeHeader(value) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * RFC 5322 text/plain message with CRLF line endings; the body is base64 so any text and line length is safe
+ *
+ * @param mail { from, to, replyTo, subject, text, date? }
+ */
+function formatMessage(mail) {
+  const from = headerLine(mail.from);
+  const domain = (from.match(/@([^>\s]+)/) || [])[1] || 'localhost';
+  const body = Buffer.from(mail.text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  const headers = [
+    `From: ${from}`,
+    `To: ${headerLine(mail.to)}`,
+    mail.replyTo ? `Reply-To: ${headerLine(mail.replyTo)}` : null,
+    `Subject: ${encodeHeader(headerLine(mail.subject))}`,
+    `Date: ${(mail.date || new Date()).toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64'
+  ].filter(Boolean);
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+/**
+ * ctime-style UTC date for mbox "From " lines, e.g. "Mon Oct 19 04:24:55 2026"
+ */
+function asctime(date) {
+  const [weekday, day, month, year, time] = date.toUTCString().replace(',', '').split(' ');
+  return `${weekday} ${month} ${day.padStart(2, ' ')} ${time} ${year}`;
+}
+
+/**
+ * mboxrd quoting: a line starting with "From " (after any '>') gets one more '>', so it can't end the message
+ */
+function escapeFromLines(message) {
+  return message.replace(/^(>*From )/gm, '>$1');
+}
+
+function addressOf(mailbox) {
+  const line = headerLine(mailbox);
+  const match = line.match(/<([^>]+)>/);
+  return (match ? match[1] : line).trim();
+}
+
+// ==========================================
+// TRANSPORTS
+// ==========================================
+
+/**
+ * Appends messages to a local mbox file (mboxrd), for development without a mail server
+ */
+class MboxTransport {
+  constructor(filePath = DEFAULT_MBOX_PATH) {
+    this.name = 'mbox';
+    this.filePath = filePath;
+  }
+
+  async send(mail) {
+    const date = mail.date || new Date();
+    const message = escapeFromLines(formatMessage({ ...mail, date }).replace(/\r\n/g, '\n'));
+    const separator = `From ${addressOf(mail.from)} ${asctime(date)}`;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${separator}\n${message}\n`);
+    return { transport: this.name, file: this.filePath };
+  }
+}
+
+/**
+ * Minimal SMTP client: EHLO, STARTTLS when offered (or implicit TLS), AUTH PLAIN, one message per connection
+ */
+class SmtpTransport {
+  /**
+   * @param options { host, port, secure, user, pass } — secure means implicit TLS (port 465)
+   */
+  constructor(options) {
+    this.name = 'smtp';
+    this.options = options;
+  }
+
+  async send(mail) {
+    const { host, port, secure, user, pass } = this.options;
+    const connection = await SmtpConnection.open({ host, port, secure });
+
+    try {
+      await connection.expect(220);
+      let capabilities = await connection.command(`EHLO ${os.hostname()}`, 250);
+
+      if (!connection.encrypted && capabilities.includes('STARTTLS')) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgrade(host);
+        capabilities = await connection.command(`EHLO ${os.hostname()}`, 250);
+      }
+
+      if (user) {
+        if (!connection.encrypted) {
+          throw new MailTransportError('Refusing to send SMTP credentials without TLS', 'SMTP_INSECURE');
+        }
+        const credentials = Buffer.from(`\0${user}\0${pass || ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(mail.from)}>`, 250);
+      await connection.command(`RCPT TO:<${addressOf(mail.to)}>`, [250, 251]);
+      await connection.command('DATA', 354);
+
+      // Dot-stuffing: a line starting with '.' gets another one
+      const data = formatMessage(mail).replace(/^\./gm, '..');
+      const reply = await connection.command(`${data}\r\n.`, 250);
+      connection.command('QUIT', 221).catch(() => {});
+      return { transport: this.name, response: reply[reply.length - 1] };
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+/**
+ * SMTP socket with reply parsing (multi-line replies end at the "NNN " line)
+ */
+class SmtpConnection {
+  static open({ host, port, secure }) {
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      socket.once(secure ? 'secureConnect' : 'connect', () => resolve(new SmtpConnection(socket, secure)));
+      socket.once('error', (error) => reject(new MailTransportError(`SMTP connection failed: ${error.message}`, error.code)));
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')));
+    });
+  }
+
+  constructor(socket, encrypted) {
+    this.encrypted = encrypted;
+    this.buffer = '';
+    this.lines = [];
+    this.waiting = null;
+    this.attach(socket);
+  }
+
+  attach(socket) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk) => {
+      this.buffer += chunk;
+      let index;
+      while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.deliver();
+    });
+    socket.on('error', (error) => this.fail(new MailTransportError(`SMTP connection failed: ${error.message}`, error.code)));
+    socket.on('close', () => this.fail(new MailTransportError('SMTP connection closed')));
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  upgrade(host) {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      this.socket.removeAllListeners('close');
+      const secureSocket = tls.connect({ socket: this.socket, servername: host }, () => {
+        this.encrypted = true;
+        resolve();
+      });
+      secureSocket.once('error', reject);
+      this.attach(secureSocket);
+    });
+  }
+
+  /**
+   * Wait for the next reply; resolves with its text lines when the code is expected
+   */
+  expect(expected) {
+    const codes = [].concat(expected);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject, codes };
+      this.deliver();
+    });
+  }
+
+  command(line, expected) {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  deliver() {
+    if (!this.waiting) return;
+    const end = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (end === -1) return;
+
+    const reply = this.lines.splice(0, end + 1);
+    const code = Number(reply[end].slice(0, 3));
+    const { resolve, reject, codes } = this.waiting;
+    this.waiting = null;
+    const text = reply.map((line) => line.slice(4));
+    if (codes.includes(code)) {
+      resolve(text);
+    } else {
+      reject(new MailTransportError(`SMTP server replied ${code}: ${text.join(' ')}`, `SMTP_${code}`));
+    }
+  }
+
+  fail(error) {
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * Transport selected by CONTACT_TRANSPORT: 'smtp' (SMTP_* settings), 'mbox' (default, CONTACT_MBOX_PATH) or 'none'
+ */
+function createMailTransport(env = process.env) {
+  const kind = (env.CONTACT_TRANSPORT || 'mbox').toLowerCase();
+  if (kind === 'none') {
+    return null;
+  }
+  if (kind === 'smtp') {
+    if (!env.SMTP_HOST) {
+      throw new Error('CONTACT_TRANSPORT=smtp needs SMTP_HOST');
+    }
+    const secure = env.SMTP_SECURE === 'true';
+    return new SmtpTransport({
+      host: env.SMTP_HOST,
+      port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS
+    });
+  }
+  if (kind === 'mbox') {
+    return new MboxTransport(env.CONTACT_MBOX_PATH || DEFAULT_MBOX_PATH);
+  }
+  throw new Error(`Unknown CONTACT_TRANSPORT: ${kind}`);
+}
+
+module.exports = {
+  MailTransportError,
+  MboxTransport,
+  SmtpTransport,
+  createMailTransport,
+  escapeFromLines,
+  formatMessage
+};
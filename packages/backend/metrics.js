@@ -0,0 +1,167 @@
+// Minimal Prometheus text-format registry (counters, histograms, collected values)
+
+// Seconds; covers cache-speed replies up to slow Drive downloads
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15];
+
+function escapeLabel(value) {
+  return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels) {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function labelKey(labelNames, labels) {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ''));
+}
+
+function pickLabels(labelNames, labels) {
+  return Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+}
+
+class Counter {
+  constructor(name, help, labelNames = []) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+    this.values = new Map();
+  }
+
+  inc(labels = {}, amount = 1) {
+    const key = labelKey(this.labelNames, labels);
+    const current = this.values.get(key);
+    if (current) {
+      current.value += amount;
+    } else {
+      this.values.set(key, { labels: pickLabels(this.labelNames, labels), value: amount });
+    }
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach(({ labels, value }) => lines.push(`${this.name}${formatLabels(labels)} ${value}`));
+    return lines.join('\n');
+  }
+}
+
+class Histogram {
+  constructor(name, help, labelNames = [], buckets = DEFAULT_BUCKETS) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+    this.buckets = [...buckets].sort((a, b) => a - b);
+    this.series = new Map();
+  }
+
+  observe(labels, value) {
+    const key = labelKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: pickLabels(this.labelNames, labels), counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach(({ labels, counts, sum, count }) => {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Values read from existing state at scrape time (e.g. cache statistics)
+ */
+class Collected {
+  constructor(name, help, type, collect) {
+    this.name = name;
+    this.help = help;
+    this.type = type;
+    this.collect = collect;
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    this.collect().forEach(({ labels = {}, value }) => lines.push(`${this.name}${formatLabels(labels)} ${value}`));
+    return lines.join('\n');
+  }
+}
+
+class MetricsRegistry {
+  constructor() {
+    this.metrics = [];
+  }
+
+  counter(name, help, labelNames) {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  histogram(name, help, labelNames, buckets) {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * @param collect () => [{ labels, value }]
+   */
+  collected(name, help, type, collect) {
+    return this.register(new Collected(name, help, type, collect));
+  }
+
+  render() {
+    return `${this.metrics.map((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  register(metric) {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// Process-wide registry and the metrics shared between modules
+const registry = new MetricsRegistry();
+
+const metrics = {
+  httpRequests: registry.counter('http_requests_total', 'HTTP requests handled, by route and status', ['method', 'route', 'status']),
+  httpDuration: registry.histogram('http_request_duration_seconds', 'Time to finish HTTP responses, by route', ['route']),
+  upstreamRequests: registry.counter('upstream_requests_total', 'Upstream responses, by host and status class', ['host', 'status_class']),
+  upstreamErrors: registry.counter('upstream_errors_total', 'Failed upstream requests, by error class', ['class']),
+  upstreamDuration: registry.histogram('upstream_request_duration_seconds', 'Time to the final upstream response headers, redirects included', ['host']),
+  upstreamRedirects: registry.counter('upstream_redirects_total', 'Redirects followed, by host', ['host']),
+  cacheResponses: registry.counter('cache_responses_total', 'Responses by cache outcome (X-Cache: HIT, MISS, REVALIDATED, STALE)', ['route', 'result']),
+  contactSubmissions: registry.counter('contact_submissions_total', 'Contact form submissions, by outcome (sent, failed, skipped, spam, invalid, lost)', ['result'])
+};
+
+/**
+ * Error class label for an upstream failure
+ */
+function classifyUpstreamError(error) {
+  if (error.name === 'RateLimitError') return 'rate_limited';
+  if (error.name === 'ProxyRejectionError') return 'rejected';
+  if (error.name === 'DriveError') return 'drive';
+  if (error.name === 'AdapterError') return 'adapter';
+  if (error.message === 'Request timeout' || error.code === 'ETIMEDOUT') return 'timeout';
+  if (error.code === 'ENOTFOUND' || error.code === 'EAI_AGAIN') return 'dns';
+  if (error.code === 'ECONNREFUSED' || error.code === 'ECONNRESET' || error.code === 'EHOSTUNREACH') return 'connection';
+  if (typeof error.code === 'string' && /CERT|TLS|SSL/.test(error.code)) return 'tls';
+  if (/redirect/i.test(error.message)) return 'redirect';
+  return 'other';
+}
+
+module.exports = {
+  registry,
+  metrics,
+  classifyUpstreamError
+};
@@ -0,0 +1,279 @@
+const fs = require('fs');
+const path = require('path');
+const { URL } = require('url');
+const { logger } = require('./logger');
+const { readBody } = require('./upstream');
+
+// Frontend tree holding environment.json and the bundled assets
+// (override with FRONTEND_DIR when it is not next to the backend, e.g. a mounted volume)
+const DEFAULT_FRONTEND_DIR = path.join(__dirname, '../frontend');
+
+const ENVIRONMENT_CONFIG_FILE = 'src/assets/environment.json';
+
+// Used by the frontend when a profile names no outreach.configPath (DEFAULT_ENVIRONMENT_PROFILE)
+const DEFAULT_CONFIG_PATH = '/assets/outreachConfig.json';
+
+const DEFAULT_PROFILE = 'production';
+
+// How often a config file is checked for changes
+const FILE_REFRESH_INTERVAL_MS = 30000;
+
+// How often a remote config is fetched again (OUTREACH_CONFIG_REFRESH_MS overrides it)
+const DEFAULT_URL_REFRESH_INTERVAL_MS = 60000;
+
+const MAX_CONFIG_BYTES = 1024 * 1024;
+
+/**
+ * The backend would read a different outreach config than the frontend
+ */
+class OutreachConfigError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'OutreachConfigError';
+  }
+}
+
+/**
+ * Where the frontend loads outreachConfig.json from: `outreach.configPath` of the profile
+ * selected by ENVIRONMENT_PROFILE (default: `defaultProfile` in environment.json).
+ *
+ * OUTREACH_CONFIG_PATH may name the config directly (a file or a URL), but must then match
+ * the profile, so the content API and the proxy allowlist never drift from what the app loads.
+ *
+ * @returns { location, profile } — location is an absolute file path or a source URL
+ */
+function resolveConfigLocation(env = process.env) {
+  const frontendDir = path.resolve(env.FRONTEND_DIR || DEFAULT_FRONTEND_DIR);
+  const override = env.OUTREACH_CONFIG_PATH ? toLocation(env.OUTREACH_CONFIG_PATH, path.resolve) : null;
+
+  const environmentPath = path.join(frontendDir, ENVIRONMENT_CONFIG_FILE);
+  let environment;
+  try {
+    environment = JSON.parse(fs.readFileSync(environmentPath, 'utf8'));
+  } catch (error) {
+    logger.warn('environment profiles unavailable', { path: environmentPath, error });
+    return { location: override || resolveAssetPath(DEFAULT_CONFIG_PATH, frontendDir), profile: null };
+  }
+
+  const profile = env.ENVIRONMENT_PROFILE || environment.defaultProfile || DEFAULT_PROFILE;
+  if (!environment.profiles || !environment.profiles[profile]) {
+    throw new OutreachConfigError(`Environment profile "${profile}" is not defined in ${environmentPath}`);
+  }
+
+  const configPath = (environment.profiles[profile].outreach || {}).configPath || DEFAULT_CONFIG_PATH;
+  const location = toLocation(configPath, (assetPath) => resolveAssetPath(assetPath, frontendDir));
+
+  if (override && override !== location) {
+    throw new OutreachConfigError(
+      `OUTREACH_CONFIG_PATH (${override}) differs from outreach.configPath of the "${profile}" profile ` +
+      `(${location}); the backend must read the same outreach config as the frontend`
+    );
+  }
+  return { location, profile };
+}
+
+/**
+ * Read-through view of the outreach config the frontend uses, reloaded when it changes.
+ * Entries map a local asset path to a URL string, a `{ url, timeoutMs, responseType }`
+ * object, or an ordered array of either; 'local' marks the bundled asset.
+ *
+ * A config on a URL is fetched with `fetch` (any source the proxy can read, e.g. a Drive link
+ * or github://), so call load() before serving requests.
+ */
+class OutreachConfigSource {
+  /**
+   * @param options.location absolute file path or source URL (default: resolveConfigLocation())
+   * @param options.fetch source fetch, required for a URL location; resolves with the final upstream response
+   * @param options.refreshIntervalMs how often a URL location is fetched again
+   */
+  constructor(options = {}) {
+    const resolved = options.location ? { location: options.location, profile: null } : resolveConfigLocation();
+    this.location = resolved.location;
+    this.profile = resolved.profile;
+    this.remote = isExternalUrl(this.location);
+    this.fetch = options.fetch || null;
+    this.refreshIntervalMs = this.remote
+      ? options.refreshIntervalMs ?? (Number(process.env.OUTREACH_CONFIG_REFRESH_MS) || DEFAULT_URL_REFRESH_INTERVAL_MS)
+      : FILE_REFRESH_INTERVAL_MS;
+
+    if (this.remote && !this.fetch) {
+      throw new OutreachConfigError(`Outreach config ${this.location} is a URL, but no fetch function was given`);
+    }
+
+    this.config = {};
+    this.version = null;
+    this.loaded = false;
+    this.failureReported = false;
+    this.lastCheck = 0;
+    this.pending = null;
+    if (!this.remote) {
+      this.refreshFile();
+    }
+  }
+
+  /**
+   * Wait for the first remote load (resolves even when it fails; the config then stays empty)
+   */
+  async load() {
+    if (this.remote && !this.loaded) {
+      await this.refreshRemote();
+    }
+    return this.config;
+  }
+
+  /**
+   * Current config; keeps the previous one when the source is missing or invalid
+   */
+  get() {
+    if (Date.now() - this.lastCheck >= this.refreshIntervalMs) {
+      if (this.remote) {
+        // Requests keep the current config while the new one loads
+        this.refreshRemote().catch(() => undefined);
+      } else {
+        this.refreshFile();
+      }
+    }
+    return this.config;
+  }
+
+  /**
+   * The config's own URL, or null when it is a file (the proxy must reach it for the frontend)
+   */
+  getConfigUrl() {
+    return this.remote ? this.location : null;
+  }
+
+  /**
+   * External sources configured for a local path, in chain order (http(s) or adapter URLs such as github://)
+   */
+  getSources(localPath) {
+    const config = this.get();
+    const withSlash = localPath.startsWith('/') ? localPath : `/${localPath}`;
+    const entry = config[withSlash] || config[withSlash.substring(1)];
+    return toSources(entry);
+  }
+
+  /**
+   * All external sources across every entry
+   */
+  getAllSources() {
+    return Object.values(this.get()).flatMap(toSources);
+  }
+
+  // ==========================================
+  // PRIVATE IMPLEMENTATION
+  // ==========================================
+
+  refreshFile() {
+    this.lastCheck = Date.now();
+    try {
+      const { mtimeMs } = fs.statSync(this.location);
+      if (mtimeMs === this.version) {
+        return;
+      }
+      this.apply(JSON.parse(fs.readFileSync(this.location, 'utf8')), mtimeMs);
+    } catch (error) {
+      this.reportFailure(error);
+    }
+  }
+
+  refreshRemote() {
+    if (this.pending) {
+      return this.pending;
+    }
+    this.lastCheck = Date.now();
+
+    this.pending = (async () => {
+      try {
+        const headers = this.version ? { 'if-none-match': this.version } : {};
+        const response = await this.fetch(this.location, { headers });
+        if (response.statusCode === 304) {
+          response.resume();
+          return;
+        }
+        if (response.statusCode !== 200) {
+          response.resume();
+          throw new Error(`Upstream status ${response.statusCode}`);
+        }
+
+        const text = (await readBody(response, MAX_CONFIG_BYTES)).toString('utf8').replace(/^\uFEFF/, '');
+        this.apply(JSON.parse(text), response.headers.etag || null);
+      } catch (error) {
+        this.reportFailure(error);
+      } finally {
+        this.pending = null;
+      }
+    })();
+    return this.pending;
+  }
+
+  apply(config, version) {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error('expected an object of path → source entries');
+    }
+    this.config = config;
+    this.version = version;
+    this.loaded = true;
+    logger.info('outreach config loaded', { location: this.location, profile: this.profile, entries: Object.keys(config).length });
+  }
+
+  reportFailure(error) {
+    if (!this.loaded) {
+      // Logged once: until the config loads, every path falls back to the frontend's bundled assets
+      if (!this.failureReported) {
+        logger.error('outreach config unavailable', { location: this.location, profile: this.profile, error });
+        this.failureReported = true;
+      }
+      return;
+    }
+    logger.warn('outreach config reload failed, keeping the previous one', { location: this.location, error });
+  }
+}
+
+/**
+ * Normalize one entry into its external sources; 'local' and relative paths are skipped
+ */
+function toSources(entry) {
+  const items = Array.isArray(entry) ? entry : [entry];
+  return items
+    .map((item) => (typeof item === 'string' ? { url: item } : item))
+    .filter((source) => source && typeof source.url === 'string' && isExternalUrl(source.url))
+    .map((source) => ({
+      url: source.url,
+      timeoutMs: typeof source.timeoutMs === 'number' ? source.timeoutMs : undefined,
+      responseType: source.responseType
+    }));
+}
+
+// Absolute URL with an authority: http(s) or an upstream adapter scheme
+function isExternalUrl(value) {
+  try {
+    new URL(value);
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(value);
+  } catch (_error) {
+    return false;
+  }
+}
+
+// URLs are kept as written; anything else is a path, resolved with resolvePath
+function toLocation(value, resolvePath) {
+  return isExternalUrl(value) ? new URL(value).href : resolvePath(value);
+}
+
+/**
+ * File behind a frontend asset URL: `public/` is served from the site root, `src/assets/` under /assets
+ */
+function resolveAssetPath(assetPath, frontendDir) {
+  const relative = assetPath.replace(/^\/+/, '');
+  const publicPath = path.join(frontendDir, 'public', relative);
+  if (fs.existsSync(publicPath) || !relative.startsWith('assets/')) {
+    return publicPath;
+  }
+  return path.join(frontendDir, 'src', relative);
+}
+
+module.exports = {
+  OutreachConfigError,
+  OutreachConfigSource,
+  resolveConfigLocation
+};
@@ -0,0 +1,188 @@
+const dns = require('dns');
+const net = require('net');
+const { URL } = require('url');
+
+// Hosts the seeded hosts are known to redirect to (Google Drive serves downloads from these)
+const DEFAULT_EXTRA_HOSTS = ['drive.usercontent.google.com', '*.googleusercontent.com'];
+
+const DEFAULT_SCHEMES = ['https:'];
+
+// Addresses the proxy must never connect to
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8],       // "this" network
+  ['10.0.0.0', 8],      // private
+  ['100.64.0.0', 10],   // carrier-grade NAT
+  ['127.0.0.0', 8],     // loopback
+  ['169.254.0.0', 16],  // link-local (cloud metadata endpoints)
+  ['172.16.0.0', 12],   // private
+  ['192.0.0.0', 24],    // IETF protocol assignments
+  ['192.168.0.0', 16],  // private
+  ['198.18.0.0', 15],   // benchmarking
+  ['224.0.0.0', 4],     // multicast
+  ['240.0.0.0', 4]      // reserved, broadcast
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+// IPv4-mapped addresses (::ffff:a.b.c.d) need no rule of their own: BlockList checks them against
+// the IPv4 rules, and a ::ffff:0:0/96 rule would match every IPv4 address as well
+[
+  ['::', 128],          // unspecified
+  ['::1', 128],         // loopback
+  ['64:ff9b::', 96],    // NAT64
+  ['fc00::', 7],        // unique local
+  ['fe80::', 10],       // link-local
+  ['ff00::', 8]         // multicast
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+/**
+ * Proxy target rejected by the allowlist or address checks
+ */
+class ProxyRejectionError extends Error {
+  constructor(code, message, status = 403) {
+    super(message);
+    this.name = 'ProxyRejectionError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Check whether a resolved IP address is private, loopback or otherwise internal
+ */
+function isBlockedAddress(address) {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Parse a comma-separated env variable into a trimmed list
+ */
+function parseList(value) {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function normalizeScheme(scheme) {
+  const lower = scheme.toLowerCase();
+  return lower.endsWith(':') ? lower : `${lower}:`;
+}
+
+/**
+ * Host and scheme allowlist for proxy targets.
+ * Hosts come from the outreach config (its own URL and every source in it, as the frontend loads it)
+ * plus PROXY_ALLOWED_HOSTS; `*.example.com` matches subdomains.
+ */
+class ProxyAllowlist {
+  /**
+   * @param outreachConfig OutreachConfigSource whose URLs seed the host list (follows its hot reloads)
+   */
+  constructor(outreachConfig, options = {}) {
+    this.outreachConfig = outreachConfig;
+    this.extraHosts = (options.hosts || [...DEFAULT_EXTRA_HOSTS, ...parseList(process.env.PROXY_ALLOWED_HOSTS)])
+      .map((host) => host.toLowerCase());
+
+    const schemes = options.schemes || parseList(process.env.PROXY_ALLOWED_SCHEMES);
+    this.schemes = new Set((schemes.length > 0 ? schemes : DEFAULT_SCHEMES).map(normalizeScheme));
+  }
+
+  /**
+   * Hosts currently allowed (for logging and /health)
+   */
+  getHosts() {
+    // The frontend fetches the config itself through the proxy too
+    const configUrl = this.outreachConfig.getConfigUrl();
+    const seededHosts = [configUrl, ...this.outreachConfig.getAllSources().map((source) => source.url)]
+      .filter(Boolean)
+      .map((url) => new URL(url))
+      .filter((url) => this.schemes.has(url.protocol))
+      .map((url) => url.hostname.toLowerCase());
+    return [...new Set([...seededHosts, ...this.extraHosts])];
+  }
+
+  getSchemes() {
+    return [...this.schemes];
+  }
+
+  /**
+   * Validate a target URL against the scheme and host allowlists.
+   * Returns the parsed URL; throws ProxyRejectionError otherwise.
+   */
+  assertAllowed(rawUrl) {
+    let parsedUrl;
+    try {
+      parsedUrl = new URL(rawUrl);
+    } catch (_error) {
+      throw new ProxyRejectionError('INVALID_URL', `Invalid URL: ${rawUrl}`, 400);
+    }
+
+    if (!this.schemes.has(parsedUrl.protocol)) {
+      throw new ProxyRejectionError('SCHEME_NOT_ALLOWED', `Scheme ${parsedUrl.protocol} is not allowed`);
+    }
+    if (parsedUrl.username || parsedUrl.password) {
+      throw new ProxyRejectionError('CREDENTIALS_NOT_ALLOWED', 'URLs with embedded credentials are not allowed');
+    }
+
+    const hostname = parsedUrl.hostname.toLowerCase();
+    if (!this.getHosts().some((pattern) => matchesHost(hostname, pattern))) {
+      const error = new ProxyRejectionError('HOST_NOT_ALLOWED', `Host ${hostname} is not allowed`);
+      error.hostname = hostname;
+      throw error;
+    }
+
+    // IP literals skip DNS lookup, so check them here
+    const literal = hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(literal) && isBlockedAddress(literal)) {
+      throw new ProxyRejectionError('ADDRESS_BLOCKED', `Address ${literal} is not allowed`);
+    }
+
+    return parsedUrl;
+  }
+}
+
+function matchesHost(hostname, pattern) {
+  if (pattern.startsWith('*.')) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+/**
+ * dns.lookup replacement for http(s).get that refuses internal addresses.
+ * Runs on every connection, so each redirect hop is checked against what it actually resolves to.
+ */
+function safeLookup(hostname, options, callback) {
+  if (typeof options === 'function') {
+    callback = options;
+    options = {};
+  }
+
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      callback(new ProxyRejectionError('ADDRESS_BLOCKED', `Host ${hostname} resolves to blocked address ${blocked.address}`));
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+module.exports = {
+  ProxyAllowlist,
+  ProxyRejectionError,
+  isBlockedAddress,
+  safeLookup
+};
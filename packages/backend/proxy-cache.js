@@ -0,0 +1,234 @@
+const crypto = require('crypto');
+
+// Defaults (override with PROXY_CACHE_* env variables)
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_STALE_IF_ERROR_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+const DEFAULT_MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+
+// Response headers stored with an entry and replayed on hits
+const STORED_HEADERS = ['content-type', 'etag', 'last-modified', 'date'];
+
+function readNumber(value, fallback) {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Strong validator for bodies whose upstream sent none
+ */
+function computeEtag(body) {
+  return `"${crypto.createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/**
+ * In-memory LRU cache of proxied responses, keyed by target URL.
+ *
+ * Features:
+ * - Per-entry TTL; expired entries are revalidated upstream with their validators
+ * - Stale entries are kept for stale-if-error until their stale window ends
+ * - Total size cap with least-recently-used eviction; oversized bodies are not cached
+ */
+class ProxyCache {
+  constructor(options = {}) {
+    this.ttlMs = options.ttlMs ?? readNumber(process.env.PROXY_CACHE_TTL_MS, DEFAULT_TTL_MS);
+    this.staleIfErrorMs = options.staleIfErrorMs ?? readNumber(process.env.PROXY_CACHE_STALE_IF_ERROR_MS, DEFAULT_STALE_IF_ERROR_MS);
+    this.maxBytes = options.maxBytes ?? readNumber(process.env.PROXY_CACHE_MAX_BYTES, DEFAULT_MAX_BYTES);
+    this.maxEntryBytes = Math.min(
+      this.maxBytes,
+      options.maxEntryBytes ?? readNumber(process.env.PROXY_CACHE_MAX_ENTRY_BYTES, DEFAULT_MAX_ENTRY_BYTES)
+    );
+
+    // Map iteration order doubles as LRU order (oldest first)
+    this.entries = new Map();
+    this.totalBytes = 0;
+    this.stats = { hits: 0, misses: 0, revalidated: 0, staleServed: 0, evictions: 0 };
+  }
+
+  get enabled() {
+    return this.ttlMs > 0 && this.maxBytes > 0;
+  }
+
+  /**
+   * Look up an entry; returns null when missing or past its stale-if-error window.
+   * Counts a hit only for fresh entries.
+   */
+  get(url) {
+    const entry = this.entries.get(url);
+    if (!entry || Date.now() > entry.expiresAt + this.staleIfErrorMs) {
+      if (entry) this.remove(url);
+      this.stats.misses++;
+      return null;
+    }
+
+    // Refresh LRU position
+    this.entries.delete(url);
+    this.entries.set(url, entry);
+    if (this.isFresh(entry)) {
+      this.stats.hits++;
+    } else {
+      this.stats.misses++;
+    }
+    return entry;
+  }
+
+  isFresh(entry) {
+    return Date.now() < entry.expiresAt;
+  }
+
+  /**
+   * Store a complete 200 response. Returns the entry, or null when it is not cacheable.
+   */
+  set(url, headers, body) {
+    if (!this.enabled || body.length > this.maxEntryBytes || !isStorable(headers)) {
+      return null;
+    }
+
+    const storedHeaders = {};
+    STORED_HEADERS.forEach((header) => {
+      if (headers[header]) {
+        storedHeaders[header] = headers[header];
+      }
+    });
+
+    const now = Date.now();
+    const entry = {
+      url,
+      body,
+      headers: storedHeaders,
+      // Validators from upstream are used to revalidate; ours is only served to browsers
+      upstreamEtag: headers.etag || null,
+      etag: headers.etag || computeEtag(body),
+      validatedAt: now,
+      expiresAt: now + this.ttlMs
+    };
+
+    this.remove(url);
+    this.entries.set(url, entry);
+    this.totalBytes += body.length;
+    this.evict();
+    return entry;
+  }
+
+  /**
+   * Extend an entry after upstream confirmed it with a 304
+   */
+  refresh(entry, headers = {}) {
+    entry.validatedAt = Date.now();
+    entry.expiresAt = entry.validatedAt + this.ttlMs;
+    if (headers.date) {
+      entry.headers.date = headers.date;
+    }
+    this.stats.revalidated++;
+  }
+
+  /**
+   * Record that an expired entry was served because upstream failed
+   */
+  markStaleServed() {
+    this.stats.staleServed++;
+  }
+
+  /**
+   * Seconds a browser may reuse the entry without asking again
+   */
+  maxAgeSeconds(entry) {
+    return Math.max(0, Math.floor((entry.expiresAt - Date.now()) / 1000));
+  }
+
+  /**
+   * Cache-Control value for responses served from (or stored into) the cache
+   */
+  cacheControl(entry) {
+    return `public, max-age=${this.maxAgeSeconds(entry)}, stale-if-error=${Math.floor(this.staleIfErrorMs / 1000)}`;
+  }
+
+  /**
+   * Send an entry, answering the browser's own conditional request with 304 when it matches
+   * @param cacheStatus X-Cache value: HIT, REVALIDATED, STALE or MISS
+   */
+  respond(req, res, entry, cacheStatus) {
+    res.set('X-Cache', cacheStatus);
+    res.set('Cache-Control', this.cacheControl(entry));
+    res.set('ETag', entry.etag);
+    res.set('Age', String(Math.max(0, Math.floor((Date.now() - entry.validatedAt) / 1000))));
+    // Keep the upstream Date so the frontend sees when the content was fetched, not when it was replayed
+    ['content-type', 'last-modified', 'date'].forEach((header) => {
+      if (entry.headers[header]) {
+        res.set(header, entry.headers[header]);
+      }
+    });
+
+    if (matchesIfNoneMatch(req.headers['if-none-match'], entry.etag)) {
+      return res.status(304).end();
+    }
+
+    res.set('Content-Length', String(entry.body.length));
+    res.status(200).end(entry.body);
+  }
+
+  remove(url) {
+    const entry = this.entries.get(url);
+    if (!entry) {
+      return false;
+    }
+    this.entries.delete(url);
+    this.totalBytes -= entry.body.length;
+    return true;
+  }
+
+  clear() {
+    const count = this.entries.size;
+    this.entries.clear();
+    this.totalBytes = 0;
+    return count;
+  }
+
+  getStats() {
+    return {
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+      ttlMs: this.ttlMs,
+      ...this.stats
+    };
+  }
+
+  // ==========================================
+  // PRIVATE IMPLEMENTATION
+  // ==========================================
+
+  evict() {
+    for (const url of this.entries.keys()) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(url);
+      this.stats.evictions++;
+    }
+  }
+}
+
+/**
+ * Respect upstream directives that forbid shared caching
+ */
+function isStorable(headers) {
+  const cacheControl = (headers['cache-control'] || '').toLowerCase();
+  return !/\b(no-store|private)\b/.test(cacheControl);
+}
+
+/**
+ * Check a browser's If-None-Match against an entry's ETag
+ */
+function matchesIfNoneMatch(ifNoneMatch, etag) {
+  if (!ifNoneMatch || !etag) {
+    return false;
+  }
+  const normalize = (tag) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || normalize(tag) === normalize(etag));
+}
+
+module.exports = {
+  ProxyCache,
+  computeEtag
+};
@@ -1,143 +1,422 @@
+const crypto = require('crypto');
 const express = require('express');
 const cors = require('cors');
-const https = require('https');
-const http = require('http');
-const { URL } = require('url');
+const { OutreachConfigSource } = require('./outreach-config');
+const { ProxyAllowlist, ProxyRejectionError } = require('./proxy-allowlist');
+const { ProxyCache } = require('./proxy-cache');
+const { AdapterError, createReachabilityCheck, createUpstreamFetcher } = require('./upstream');
+const { DriveError, withDriveSupport } = require('./drive-adapter');
+const { createAdapterRegistry } = require('./upstream-adapters');
+const { createContentRouter } = require('./content-api');
+const { createContactRouter } = require('./contact');
+const { ContactStore } = require('./contact-store');
+const { createMailTransport } = require('./mail-transport');
+const { RateLimitError, createRateLimiters, sendRateLimited } = require('./rate-limit');
+const { logger } = require('./logger');
+const { registry, metrics } = require('./metrics');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a reverse proxy, set TRUST_PROXY (e.g. 1 or 'loopback') so req.ip is the client address
+if (process.env.TRUST_PROXY) {
+  const trustProxy = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(trustProxy) ? trustProxy : process.env.TRUST_PROXY);
+}
+
 // Enable CORS for all origins (adjust as needed)
-app.use(cors());
+// Validator headers are exposed so the frontend can revalidate with conditional requests,
+// Date and Age so it can tell how old content served from a cache is
+const EXPOSED_HEADERS = ['ETag', 'Last-Modified', 'Date', 'Age', 'X-Cache', 'X-Request-Id'];
+app.use(cors({ exposedHeaders: EXPOSED_HEADERS }));
+
+// Incoming request IDs are reused when they look sane, so logs can be correlated across services
+const REQUEST_ID_PATTERN = /^[\w.-]{1,128}$/;
+
+// Request ID, child logger and one access log line + metrics per request
+app.use((req, res, next) => {
+  const incomingId = req.get('x-request-id');
+  req.id = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+  req.log = logger.child({ requestId: req.id });
+  res.set('X-Request-Id', req.id);
+
+  const start = process.hrtime.bigint();
+  res.on('finish', () => {
+    const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const cacheResult = res.get('X-Cache');
+
+    metrics.httpRequests.inc({ method: req.method, route, status: res.statusCode });
+    metrics.httpDuration.observe({ route }, durationMs / 1000);
+    if (cacheResult) {
+      metrics.cacheResponses.inc({ route, result: cacheResult });
+    }
+
+    req.log.info('request completed', {
+      method: req.method,
+      path: req.path,
+      target: req.query.url,
+      status: res.statusCode,
+      durationMs: Math.round(durationMs),
+      bytes: Number(res.get('Content-Length')) || undefined,
+      cache: cacheResult,
+      ip: req.ip
+    });
+  });
+  next();
+});
+
+// Conditional request headers forwarded upstream (enables cheap 304 revalidation)
+const CONDITIONAL_HEADERS = ['if-none-match', 'if-modified-since'];
+
+// Validator headers forwarded back to the browser
+const VALIDATOR_HEADERS = ['etag', 'last-modified'];
 
-// Single proxy endpoint with redirect handling
-app.get('/proxy', async (req, res) => {
+// Forwarded so the browser can report determinate download progress
+const LENGTH_HEADERS = ['content-length'];
+
+// Path → upstream source mapping: the same config the frontend's environment profile loads.
+// A remote config is read like any other source (fetchSource is defined below, before load() runs).
+const outreachConfig = new OutreachConfigSource({ fetch: (url, options) => fetchSource(url, options) });
+
+// Token buckets per client IP and per upstream host (RATE_LIMIT_* env variables)
+const rateLimiters = createRateLimiters();
+
+// Hosts and schemes the proxy may fetch (seeded from the outreach config)
+const allowlist = new ProxyAllowlist(outreachConfig);
+// Drive share/view links are resolved to the file itself (see drive-adapter.js)
+const fetchUpstream = withDriveSupport(createUpstreamFetcher(allowlist, rateLimiters.target));
+
+// github://, s3://, dropbox:// and drive:// sources; http(s) URLs fall through to fetchUpstream
+const sources = createAdapterRegistry({ allowlist, outreachConfig, fetchUpstream, targetLimiter: rateLimiters.target });
+const fetchSource = (url, options) => sources.fetch(url, options);
+
+// Responses cached by target URL (PROXY_CACHE_TTL_MS=0 disables it)
+const proxyCache = new ProxyCache();
+
+// Validated content files served by /api/content (same TTL settings as the proxy cache)
+const contentCache = new ProxyCache();
+
+// Contact form submissions: stored as JSON lines (CONTACT_STORE_PATH) and sent with CONTACT_TRANSPORT
+const contactStore = new ContactStore();
+const contactTransport = createMailTransport();
+
+// Enables the /admin endpoints when set; requests must send `Authorization: Bearer <token>`
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+
+const limitByIp = rateLimiters.ip.middleware((req) => req.ip);
+
+// Single proxy endpoint with redirect handling and a server-side cache
+app.get('/proxy', limitByIp, async (req, res) => {
   const targetUrl = req.query.url;
-  const maxRedirects = 5; // Prevent infinite redirect loops
 
   // Basic validation
   if (!targetUrl) {
-    return res.status(400).json({ error: 'URL parameter required' });
+    return res.status(400).json({ error: 'URL parameter required', code: 'URL_REQUIRED' });
   }
 
   try {
-    await makeRequest(targetUrl, res, maxRedirects);
+    // Reject before touching the cache so entries of de-listed hosts or sources are never served
+    sources.assertAllowed(targetUrl);
+
+    const cached = proxyCache.enabled ? proxyCache.get(targetUrl) : null;
+    if (cached && proxyCache.isFresh(cached)) {
+      return proxyCache.respond(req, res, cached, 'HIT');
+    }
+
+    // With a cached copy, revalidate it with its own validators;
+    // otherwise pass the browser's validators through
+    const conditionalHeaders = cached ? upstreamValidators(cached) : pickHeaders(req.headers, CONDITIONAL_HEADERS);
+
+    let response;
+    try {
+      response = await fetchSource(targetUrl, { headers: conditionalHeaders, log: req.log });
+    } catch (error) {
+      if (cached && !(error instanceof ProxyRejectionError)) {
+        return sendStale(req, res, cached, error);
+      }
+      throw error;
+    }
+
+    if (cached && response.statusCode === 304) {
+      response.resume();
+      proxyCache.refresh(cached, response.headers);
+      return proxyCache.respond(req, res, cached, 'REVALIDATED');
+    }
+
+    if (cached && response.statusCode >= 500) {
+      response.resume();
+      return sendStale(req, res, cached, new Error(`Upstream status ${response.statusCode}`));
+    }
+
+    await streamResponse(req, targetUrl, response, res);
   } catch (error) {
-    console.error('Proxy request failed:', error.message);
+    if (error instanceof RateLimitError) {
+      if (!res.headersSent) {
+        sendRateLimited(res, error);
+      }
+      return;
+    }
+
+    if (error instanceof ProxyRejectionError) {
+      req.log.warn('proxy target rejected', { target: targetUrl, code: error.code, reason: error.message });
+      if (!res.headersSent) {
+        res.status(error.status).json({ error: 'Target not allowed', code: error.code, message: error.message });
+      }
+      return;
+    }
+
+    if (error instanceof DriveError || error instanceof AdapterError) {
+      if (!res.headersSent) {
+        res.status(error.status).json({ error: 'Source unavailable', code: error.code, message: error.message });
+      }
+      return;
+    }
+
+    req.log.error('proxy request failed', { target: targetUrl, error });
     if (!res.headersSent) {
-      res.status(500).json({ error: 'Request failed', message: error.message });
+      res.status(500).json({ error: 'Request failed', code: 'UPSTREAM_ERROR', message: error.message });
     }
   }
 });
 
+// First-class content routes, e.g. /api/content/portfolio
+app.use('/api/content', limitByIp, createContentRouter({ outreachConfig, fetchUpstream: fetchSource, cache: contentCache }));
+
+// Contact form (has its own, stricter per-IP limit)
+app.use('/api/contact', createContactRouter({ store: contactStore, transport: contactTransport, limiter: rateLimiters.contact }));
+
 /**
- * Make HTTP request with redirect handling
+ * Copy the listed headers that are present
  */
-async function makeRequest(url, res, maxRedirects, redirectCount = 0) {
-  if (redirectCount >= maxRedirects) {
-    throw new Error(`Too many redirects (${maxRedirects})`);
-  }
+function pickHeaders(source, names) {
+  const picked = {};
+  names.forEach((header) => {
+    if (source[header]) {
+      picked[header] = source[header];
+    }
+  });
+  return picked;
+}
 
-  console.log(`🌐 Making request to: ${url} (redirect ${redirectCount}/${maxRedirects})`);
+/**
+ * Conditional headers that ask upstream whether a cached entry is still current
+ */
+function upstreamValidators(entry) {
+  const headers = {};
+  if (entry.upstreamEtag) {
+    headers['if-none-match'] = entry.upstreamEtag;
+  }
+  if (entry.headers['last-modified']) {
+    headers['if-modified-since'] = entry.headers['last-modified'];
+  }
+  return headers;
+}
 
-  const parsedUrl = new URL(url);
-  const protocol = parsedUrl.protocol === 'https:' ? https : http;
+/**
+ * Serve an expired entry because upstream failed (stale-if-error)
+ */
+function sendStale(req, res, entry, error) {
+  req.log.warn('serving stale cache entry', { target: entry.url, error });
+  proxyCache.markStaleServed();
+  proxyCache.respond(req, res, entry, 'STALE');
+}
 
+/**
+ * Stream an upstream response to the browser; complete 200 bodies are also stored in the cache
+ */
+function streamResponse(req, url, response, res) {
   return new Promise((resolve, reject) => {
-    const request = protocol.get(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'application/json, text/plain, */*',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Cache-Control': 'no-cache'
-      }
-    }, (response) => {
-      console.log(`📡 Response status: ${response.statusCode} from ${url}`);
-
-      // Handle redirects (3xx status codes)
-      if (response.statusCode >= 300 && response.statusCode < 400 && response.headers.location) {
-        console.log(`🔄 Redirect ${redirectCount + 1}/${maxRedirects}: ${response.statusCode} -> ${response.headers.location}`);
-
-        // Clean up the current response
-        response.destroy();
-
-        // Follow the redirect
-        const redirectUrl = response.headers.location;
-        let absoluteUrl;
-
-        try {
-          // Try to resolve relative URLs
-          absoluteUrl = redirectUrl.startsWith('http') ? redirectUrl : new URL(redirectUrl, url).href;
-        } catch (urlError) {
-          console.error(`❌ Invalid redirect URL: ${redirectUrl}`);
-          reject(new Error(`Invalid redirect URL: ${redirectUrl}`));
-          return;
-        }
+    // Set CORS headers
+    res.set('Access-Control-Allow-Origin', '*');
+    res.set('Access-Control-Allow-Methods', 'GET');
 
-        console.log(`🎯 Following redirect to: ${absoluteUrl}`);
+    // Forward the content type
+    if (response.headers['content-type']) {
+      res.set('Content-Type', response.headers['content-type']);
+    }
 
-        makeRequest(absoluteUrl, res, maxRedirects, redirectCount + 1)
-          .then(resolve)
-          .catch(reject);
-        return;
+    // Forward validators so the next request can be conditional
+    VALIDATOR_HEADERS.forEach((header) => {
+      if (response.headers[header]) {
+        res.set(header, response.headers[header]);
       }
+    });
+    res.set('Access-Control-Expose-Headers', EXPOSED_HEADERS.join(', '));
 
-      // Handle successful responses
-      if (response.statusCode >= 200 && response.statusCode < 300) {
-        console.log(`✅ Success: ${response.statusCode} - ${response.headers['content-type'] || 'unknown content type'}`);
-      } else {
-        console.log(`⚠️ Non-success status: ${response.statusCode}`);
+    // Forward the body length (bytes are piped unchanged, so it stays accurate)
+    LENGTH_HEADERS.forEach((header) => {
+      if (response.headers[header]) {
+        res.set(header, response.headers[header]);
       }
+    });
 
-      // Set CORS headers
-      res.set('Access-Control-Allow-Origin', '*');
-      res.set('Access-Control-Allow-Methods', 'GET');
-
-      // Forward the content type
-      if (response.headers['content-type']) {
-        res.set('Content-Type', response.headers['content-type']);
-      }
+    // Collect the body alongside the pipe when it may be cached
+    const declaredLength = Number(response.headers['content-length']);
+    const collect = proxyCache.enabled && response.statusCode === 200 &&
+      !(declaredLength > proxyCache.maxEntryBytes);
+    let chunks = collect ? [] : null;
+    let collectedBytes = 0;
 
-      // Set status code
-      res.status(response.statusCode);
+    if (response.statusCode === 200) {
+      res.set('Cache-Control', proxyCache.enabled
+        ? `public, max-age=${Math.floor(proxyCache.ttlMs / 1000)}`
+        : 'no-cache');
+      res.set('X-Cache', 'MISS');
+    } else if (response.statusCode !== 304) {
+      res.set('Cache-Control', 'no-store');
+    }
 
-      // Pipe the response directly (no buffering)
-      response.pipe(res);
+    // Set status code
+    res.status(response.statusCode);
 
-      response.on('end', () => {
-        console.log(`📄 Response completed for: ${url}`);
-        resolve();
+    if (chunks) {
+      response.on('data', (chunk) => {
+        if (!chunks) return;
+        collectedBytes += chunk.length;
+        if (collectedBytes > proxyCache.maxEntryBytes) {
+          chunks = null;
+          return;
+        }
+        chunks.push(chunk);
       });
+    }
 
-      response.on('error', (error) => {
-        console.error(`❌ Response error for ${url}:`, error);
-        reject(error);
-      });
-    });
+    // Pipe the response directly (no buffering)
+    response.pipe(res);
 
-    // Handle request errors
-    request.on('error', (error) => {
-      console.error(`❌ Request error for ${url}:`, error);
-      reject(error);
+    response.on('end', () => {
+      if (chunks && response.complete && proxyCache.set(url, response.headers, Buffer.concat(chunks))) {
+        req.log.debug('cached proxy response', { target: url, bytes: collectedBytes });
+      }
+      resolve();
     });
 
-    // Handle timeout
-    request.setTimeout(15000, () => {
-      console.error(`⏰ Request timeout for ${url}`);
-      request.destroy();
-      reject(new Error('Request timeout'));
+    response.on('error', (error) => {
+      reject(error);
     });
   });
 }
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+// ==========================================
+// ADMIN
+// ==========================================
+
+/**
+ * Require the admin bearer token; the endpoints are disabled without ADMIN_TOKEN
+ */
+function requireAdmin(req, res, next) {
+  if (!ADMIN_TOKEN) {
+    return res.status(403).json({ error: 'Admin endpoints disabled', code: 'ADMIN_DISABLED' });
+  }
+  if (req.get('authorization') !== `Bearer ${ADMIN_TOKEN}`) {
+    return res.status(401).json({ error: 'Invalid admin token', code: 'UNAUTHORIZED' });
+  }
+  next();
+}
+
+// Purge one cached target (`?url=`), one content route (`?content=portfolio`) or everything (`?all=true`)
+app.delete('/admin/cache', requireAdmin, (req, res) => {
+  const targetUrl = req.query.url;
+  const contentName = req.query.content;
+  if (req.query.all === 'true') {
+    const purged = proxyCache.clear() + contentCache.clear();
+    req.log.info('cache purged', { scope: 'all', purged });
+    return res.json({ purged });
+  }
+  if (contentName) {
+    const purged = contentCache.remove(contentName) ? 1 : 0;
+    req.log.info('cache purged', { scope: 'content', content: contentName, purged });
+    return res.json({ purged, content: contentName });
+  }
+  if (!targetUrl) {
+    return res.status(400).json({ error: 'URL or content parameter required', code: 'URL_REQUIRED' });
+  }
+
+  const purged = proxyCache.remove(targetUrl) ? 1 : 0;
+  req.log.info('cache purged', { scope: 'proxy', target: targetUrl, purged });
+  res.json({ purged, url: targetUrl });
+});
+
+// Stored contact submissions, newest first (`?limit=50&offset=0`)
+app.get('/admin/contact', requireAdmin, async (req, res) => {
+  const limit = Math.min(Math.max(Number.parseInt(req.query.limit, 10) || 50, 1), 500);
+  const offset = Math.max(Number.parseInt(req.query.offset, 10) || 0, 0);
+  try {
+    res.json(await contactStore.list({ limit, offset }));
+  } catch (error) {
+    req.log.error('contact submissions unreadable', { error });
+    res.status(500).json({ error: 'Submissions unavailable', code: 'CONTACT_STORE_ERROR', message: error.message });
+  }
+});
+
+// Probes every configured upstream origin (cached briefly so health checks don't hammer them)
+const checkReachability = createReachabilityCheck(() =>
+  outreachConfig.getAllSources().map((source) => sources.probeTarget(source.url))
+);
+
+// Scrape-time views of existing counters
+registry.collected('proxy_cache_entries', 'Entries held in each server-side cache', 'gauge', () => [
+  { labels: { cache: 'proxy' }, value: proxyCache.getStats().entries },
+  { labels: { cache: 'content' }, value: contentCache.getStats().entries }
+]);
+registry.collected('proxy_cache_bytes', 'Bytes held in each server-side cache', 'gauge', () => [
+  { labels: { cache: 'proxy' }, value: proxyCache.getStats().bytes },
+  { labels: { cache: 'content' }, value: contentCache.getStats().bytes }
+]);
+registry.collected('proxy_cache_evictions_total', 'Entries evicted to stay within the size budget', 'counter', () => [
+  { labels: { cache: 'proxy' }, value: proxyCache.getStats().evictions },
+  { labels: { cache: 'content' }, value: contentCache.getStats().evictions }
+]);
+registry.collected('rate_limit_decisions_total', 'Rate limiter decisions, by scope', 'counter', () =>
+  [rateLimiters.ip, rateLimiters.target, rateLimiters.contact].flatMap((limiter) => [
+    { labels: { scope: limiter.scope, result: 'allowed' }, value: limiter.stats.allowed },
+    { labels: { scope: limiter.scope, result: 'limited' }, value: limiter.stats.limited }
+  ])
+);
+
+// Prometheus metrics
+app.get('/metrics', (req, res) => {
+  res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.send(registry.render());
 });
 
-app.listen(PORT, () => {
-  console.log(`Proxy server running on port ${PORT}`);
-  console.log(`Use: http://localhost:${PORT}/proxy?url=YOUR_URL_HERE`);
+// Health check: 'degraded' when a configured upstream can't be reached
+app.get('/health', async (req, res) => {
+  const reachability = await checkReachability();
+  const allReachable = reachability.upstreams.every((upstream) => upstream.reachable);
+  res.json({
+    status: allReachable ? 'ok' : 'degraded',
+    timestamp: new Date().toISOString(),
+    upstreams: {
+      checkedAt: new Date(reachability.checkedAt).toISOString(),
+      results: reachability.upstreams
+    },
+    adapters: sources.describe(),
+    outreachConfig: { location: outreachConfig.location, profile: outreachConfig.profile, loaded: outreachConfig.loaded },
+    cache: { proxy: proxyCache.getStats(), content: contentCache.getStats() },
+    rateLimit: {
+      ip: await rateLimiters.ip.getStats(),
+      target: await rateLimiters.target.getStats(),
+      contact: await rateLimiters.contact.getStats(),
+      trackedKeys: await rateLimiters.store.size()
+    }
+  });
+});
+
+// Routes and the allowlist depend on the outreach config, so it is loaded before listening
+outreachConfig.load().then(() => {
+  app.listen(PORT, () => {
+    logger.info('proxy server started', {
+      port: Number(PORT),
+      usage: `http://localhost:${PORT}/proxy?url=YOUR_URL_HERE`,
+      outreachConfig: outreachConfig.location,
+      allowedSchemes: allowlist.getSchemes(),
+      allowedHosts: allowlist.getHosts(),
+      adapters: sources.describe(),
+      contactTransport: contactTransport ? contactTransport.name : 'none'
+    });
+  });
 });
 
-module.exports = app;
\ No newline at end of file
+module.exports = app;
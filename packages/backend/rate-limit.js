@@ -0,0 +1,211 @@
+// How often refilled buckets are dropped (a full bucket holds no state worth keeping)
+const SWEEP_INTERVAL_MS = 60000;
+
+function readNumber(value, fallback) {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Request refused by a rate limiter
+ */
+class RateLimitError extends Error {
+  constructor(scope, key, result, policy) {
+    super(`Rate limit exceeded for ${scope} ${key}`);
+    this.name = 'RateLimitError';
+    this.scope = scope;
+    this.result = result;
+    this.policy = policy;
+  }
+
+  get retryAfterSeconds() {
+    return Math.max(1, Math.ceil(this.result.retryAfterMs / 1000));
+  }
+}
+
+/**
+ * In-memory token bucket store.
+ *
+ * Store interface (async, so a Redis-compatible store can replace this one):
+ * - take(key, policy, cost) → { allowed, remaining, retryAfterMs, resetMs }
+ * - size() → number of tracked keys
+ */
+class MemoryBucketStore {
+  constructor() {
+    this.buckets = new Map();
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Refill the bucket for the elapsed time, then try to take `cost` tokens
+   * @param policy { capacity, refillPerSecond }
+   */
+  async take(key, policy, cost = 1) {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) || { tokens: policy.capacity, updatedAt: now };
+    bucket.tokens = Math.min(policy.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * policy.refillPerSecond);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= cost;
+    if (allowed) {
+      bucket.tokens -= cost;
+    }
+    bucket.fullAt = now + ((policy.capacity - bucket.tokens) / policy.refillPerSecond) * 1000;
+    this.buckets.set(key, bucket);
+
+    return {
+      allowed,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil(((cost - bucket.tokens) / policy.refillPerSecond) * 1000),
+      resetMs: Math.max(0, Math.ceil(bucket.fullAt - now))
+    };
+  }
+
+  async size() {
+    return this.buckets.size;
+  }
+
+  sweep() {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Token bucket limiter for one scope (e.g. client IP or upstream host).
+ * A capacity or refill rate of 0 disables it.
+ */
+class RateLimiter {
+  /**
+   * @param scope Name used in key prefixes, errors and stats, e.g. 'ip'
+   * @param options { store, capacity, refillPerSecond }
+   */
+  constructor(scope, options) {
+    this.scope = scope;
+    this.store = options.store;
+    this.policy = { capacity: options.capacity, refillPerSecond: options.refillPerSecond };
+    this.stats = { allowed: 0, limited: 0 };
+  }
+
+  get enabled() {
+    return this.policy.capacity > 0 && this.policy.refillPerSecond > 0;
+  }
+
+  /**
+   * Take one token for a key; throws RateLimitError when the bucket is empty
+   */
+  async consume(key) {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const result = await this.store.take(`${this.scope}:${key}`, this.policy);
+    if (!result.allowed) {
+      this.stats.limited++;
+      throw new RateLimitError(this.scope, key, result, this.policy);
+    }
+    this.stats.allowed++;
+    return result;
+  }
+
+  /**
+   * Express middleware limiting by the key keyFn(req) returns (null skips the check)
+   */
+  middleware(keyFn) {
+    return async (req, res, next) => {
+      const key = keyFn(req);
+      if (key === null || key === undefined) {
+        return next();
+      }
+
+      try {
+        const result = await this.consume(key);
+        if (result) {
+          this.setHeaders(res, result);
+        }
+        next();
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          return sendRateLimited(res, error);
+        }
+        next(error);
+      }
+    };
+  }
+
+  /**
+   * RateLimit-* headers (IETF draft) describing this limiter's bucket
+   */
+  setHeaders(res, result) {
+    res.set('RateLimit-Limit', String(this.policy.capacity));
+    res.set('RateLimit-Remaining', String(result.remaining));
+    res.set('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+    res.set('RateLimit-Policy', `${this.policy.capacity};w=${Math.ceil(this.policy.capacity / this.policy.refillPerSecond)}`);
+  }
+
+  async getStats() {
+    return {
+      enabled: this.enabled,
+      capacity: this.policy.capacity,
+      refillPerSecond: this.policy.refillPerSecond,
+      ...this.stats
+    };
+  }
+}
+
+/**
+ * 429 response for a RateLimitError
+ */
+function sendRateLimited(res, error) {
+  res.set('Retry-After', String(error.retryAfterSeconds));
+  res.set('RateLimit-Limit', String(error.policy.capacity));
+  res.set('RateLimit-Remaining', '0');
+  res.set('RateLimit-Reset', String(error.retryAfterSeconds));
+  res.set('Cache-Control', 'no-store');
+  res.status(429).json({
+    error: 'Too many requests',
+    code: 'RATE_LIMITED',
+    scope: error.scope,
+    retryAfter: error.retryAfterSeconds
+  });
+}
+
+/**
+ * Limiters configured from RATE_LIMIT_* env variables, sharing one store
+ */
+function createRateLimiters(store = new MemoryBucketStore()) {
+  return {
+    store,
+    // Requests per client IP across the proxy and API routes
+    ip: new RateLimiter('ip', {
+      store,
+      capacity: readNumber(process.env.RATE_LIMIT_IP_CAPACITY, 60),
+      refillPerSecond: readNumber(process.env.RATE_LIMIT_IP_REFILL_PER_SEC, 1)
+    }),
+    // Upstream fetches per target host, whoever asks (cache hits don't count)
+    target: new RateLimiter('target', {
+      store,
+      capacity: readNumber(process.env.RATE_LIMIT_TARGET_CAPACITY, 30),
+      refillPerSecond: readNumber(process.env.RATE_LIMIT_TARGET_REFILL_PER_SEC, 0.5)
+    }),
+    // Contact form posts per client IP (default: 3, then one more every 100 seconds)
+    contact: new RateLimiter('contact', {
+      store,
+      capacity: readNumber(process.env.RATE_LIMIT_CONTACT_CAPACITY, 3),
+      refillPerSecond: readNumber(process.env.RATE_LIMIT_CONTACT_REFILL_PER_SEC, 0.01)
+    })
+  };
+}
+
+module.exports = {
+  MemoryBucketStore,
+  RateLimitError,
+  RateLimiter,
+  createRateLimiters,
+  sendRateLimited
+};
@@ -0,0 +1,122 @@
+const crypto = require('crypto');
+const { URL } = require('url');
+const { AdapterError } = require('./upstream');
+
+const DEFAULT_REGION = 'us-east-1';
+
+// GET requests have no body; this is the SHA-256 of the empty string
+const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+// s3://bucket/path/to/key
+const S3_URL_PATTERN = /^s3:\/\/([a-z0-9][a-z0-9.-]{1,61}[a-z0-9])\/(.+)$/;
+
+function parseS3Url(url) {
+  const match = url.match(S3_URL_PATTERN);
+  if (!match) {
+    throw new AdapterError('ADAPTER_INVALID_URL', `Expected s3://bucket/key, got ${url}`, 400);
+  }
+  return { bucket: match[1], key: match[2] };
+}
+
+/**
+ * RFC 3986 encoding as SigV4 expects it (encodeURIComponent leaves !'()* alone)
+ */
+function encodeSegment(segment) {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256(value) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key, value) {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+/**
+ * AWS Signature Version 4 headers for a request without a body.
+ * Every header passed in is signed; returns them plus x-amz-date, x-amz-content-sha256 and Authorization.
+ *
+ * @param credentials { accessKeyId, secretAccessKey, sessionToken? }
+ */
+function signRequest({ method = 'GET', url, headers = {}, credentials, region, service = 's3', date = new Date() }) {
+  const parsedUrl = new URL(url);
+  const amzDate = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+
+  const signed = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), String(value).trim()])),
+    'host': parsedUrl.host,
+    'x-amz-content-sha256': EMPTY_PAYLOAD_HASH,
+    'x-amz-date': amzDate
+  };
+  if (credentials.sessionToken) {
+    signed['x-amz-security-token'] = credentials.sessionToken;
+  }
+  const headerNames = Object.keys(signed).sort();
+
+  const canonicalQuery = [...parsedUrl.searchParams]
+    .map(([name, value]) => `${encodeSegment(name)}=${encodeSegment(value)}`)
+    .sort()
+    .join('&');
+  const canonicalRequest = [
+    method,
+    parsedUrl.pathname,
+    canonicalQuery,
+    headerNames.map((name) => `${name}:${signed[name]}\n`).join(''),
+    headerNames.join(';'),
+    EMPTY_PAYLOAD_HASH
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = [dateStamp, region, service, 'aws4_request']
+    .reduce((key, part) => hmac(key, part), `AWS4${credentials.secretAccessKey}`);
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  // Host is set by the http client from the URL
+  delete signed.host;
+  return {
+    ...signed,
+    'authorization': `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${headerNames.join(';')}, Signature=${signature}`
+  };
+}
+
+/**
+ * `s3://` sources on AWS S3 or any S3-compatible store (MinIO, R2, ...), addressed path-style.
+ * Requests are signed when S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are set, anonymous otherwise;
+ * S3_ENDPOINT points at a non-AWS store or a local stub.
+ *
+ * @param createFetcher (endpoint) => fetch limited to that endpoint
+ */
+function createS3Adapter(createFetcher, env = process.env) {
+  const region = env.S3_REGION || DEFAULT_REGION;
+  const endpoint = (env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, '');
+  const credentials = env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY
+    ? { accessKeyId: env.S3_ACCESS_KEY_ID, secretAccessKey: env.S3_SECRET_ACCESS_KEY, sessionToken: env.S3_SESSION_TOKEN }
+    : null;
+  const fetchEndpoint = createFetcher(endpoint);
+
+  return {
+    scheme: 's3:',
+    endpoint,
+    configured: true,
+    authenticated: Boolean(credentials),
+
+    fetch(url, options = {}) {
+      const { bucket, key } = parseS3Url(url);
+      const target = `${endpoint}/${bucket}/${key.split('/').map(encodeSegment).join('/')}`;
+      const headers = credentials
+        ? { ...options.headers, ...signRequest({ url: target, credentials, region }) }
+        : options.headers;
+      return fetchEndpoint(target, { ...options, headers });
+    }
+  };
+}
+
+module.exports = {
+  createS3Adapter,
+  parseS3Url,
+  signRequest
+};
@@ -0,0 +1,146 @@
+const { describe, test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const express = require('express');
+const { createContactRouter, validateSubmission } = require('../contact');
+const { MemoryBucketStore, RateLimiter } = require('../rate-limit');
+
+const VALID = {
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  subject: 'Engines',
+  message: 'About the analytical engine.'
+};
+
+describe('validateSubmission', () => {
+  test('returns the cleaned submission', () => {
+    const { submission } = validateSubmission({
+      ...VALID,
+      name: '  Ada\r\n\tLovelace ',
+      subject: 'Line one\r\nBcc: victim@example.com',
+      message: 'First line\r\nsecond\x07 line\rthird'
+    });
+    assert.deepEqual(submission, {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      subject: 'Line one Bcc: victim@example.com',
+      message: 'First line\nsecond line\nthird'
+    });
+  });
+
+  test('reports every invalid field', () => {
+    const { errors } = validateSubmission({
+      name: '',
+      email: 'ada@example.com\r\nBcc: victim@example.com',
+      subject: 'x'.repeat(151),
+      message: 'Too short'
+    });
+    assert.deepEqual(Object.keys(errors).sort(), ['email', 'message', 'name', 'subject']);
+
+    assert.match(validateSubmission({ ...VALID, message: 'x'.repeat(5001) }).errors.message, /at most 5000/);
+    assert.deepEqual(validateSubmission(['not', 'an', 'object']).errors, { form: 'Expected a JSON object' });
+  });
+
+  test('flags a filled honeypot as spam before validating anything else', () => {
+    assert.deepEqual(validateSubmission({ website: 'https://spam.example', name: '' }), { spam: true });
+    assert.ok(validateSubmission({ ...VALID, website: '  ' }).submission);
+  });
+});
+
+describe('createContactRouter', () => {
+  let server;
+  let origin;
+  let stored;
+  let sent;
+  let store;
+  let transport;
+
+  beforeEach(async () => {
+    stored = [];
+    sent = [];
+    store = { add: async (record) => { stored.push(record); } };
+    transport = { name: 'test', send: async (mail) => { sent.push(mail); } };
+
+    const limiter = new RateLimiter('contact', { store: new MemoryBucketStore(), capacity: 100, refillPerSecond: 1 });
+    const app = express();
+    // Resolved per request so a test can swap the store or transport after startup
+    app.use('/api/contact', createContactRouter({
+      store: { add: (record) => store.add(record) },
+      transport: { name: 'test', send: (mail) => transport.send(mail) },
+      limiter,
+      mail: { from: 'Portfolio <no-reply@example.com>', to: 'owner@example.com' }
+    }));
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    origin = `http://localhost:${server.address().port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const post = (body) => fetch(`${origin}/api/contact`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+
+  test('stores and delivers a valid submission', async () => {
+    const response = await post(VALID);
+    assert.equal(response.status, 202);
+    const { id, status } = await response.json();
+    assert.equal(status, 'received');
+
+    assert.equal(stored.length, 1);
+    assert.equal(stored[0].id, id);
+    assert.equal(stored[0].delivery.status, 'sent');
+    assert.equal(sent.length, 1);
+    assert.equal(sent[0].replyTo, 'ada@example.com');
+    assert.equal(sent[0].subject, '[Portfolio] Engines');
+  });
+
+  test('answers a honeypot hit with 202 without storing or sending it', async () => {
+    const response = await post({ ...VALID, website: 'https://spam.example' });
+    assert.equal(response.status, 202);
+    assert.deepEqual(await response.json(), { status: 'received' });
+    assert.deepEqual([stored.length, sent.length], [0, 0]);
+  });
+
+  test('answers invalid fields and malformed JSON with 400', async () => {
+    const invalid = await post({ ...VALID, email: 'nope', message: 'short' });
+    assert.equal(invalid.status, 400);
+    const body = await invalid.json();
+    assert.equal(body.code, 'CONTACT_INVALID');
+    assert.deepEqual(Object.keys(body.fields).sort(), ['email', 'message']);
+
+    const malformed = await post('{ "name": ');
+    assert.equal(malformed.status, 400);
+    assert.equal((await malformed.json()).code, 'CONTACT_INVALID');
+    assert.deepEqual([stored.length, sent.length], [0, 0]);
+  });
+
+  test('counts a stored message as received when delivery fails', async () => {
+    transport = { send: async () => { throw new Error('SMTP server replied 554'); } };
+
+    const response = await post(VALID);
+    assert.equal(response.status, 202);
+    assert.deepEqual(stored[0].delivery, { status: 'failed', transport: 'test', error: 'SMTP server replied 554' });
+  });
+
+  test('counts a delivered message as received when storing fails', async () => {
+    store = { add: async () => { throw new Error('EACCES'); } };
+
+    const response = await post(VALID);
+    assert.equal(response.status, 202);
+    assert.equal(sent.length, 1);
+  });
+
+  test('answers 503 when the message can be neither stored nor delivered', async () => {
+    store = { add: async () => { throw new Error('EACCES'); } };
+    transport = { send: async () => { throw new Error('SMTP connection failed'); } };
+
+    const response = await post(VALID);
+    assert.equal(response.status, 503);
+    assert.equal((await response.json()).code, 'CONTACT_UNAVAILABLE');
+  });
+});
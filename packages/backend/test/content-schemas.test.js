@@ -0,0 +1,109 @@
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { CONTENT_TYPES } = require('../content-schemas');
+
+// Also run by the frontend's data-schemas spec: both validators must report the same issues
+const SHARED_FIXTURES = path.join(__dirname, '../../frontend/src/app/models/data-schemas.fixtures.json');
+
+const validatePortfolio = CONTENT_TYPES.portfolio.validate;
+const validateSkills = CONTENT_TYPES.skills.validate;
+
+function portfolio(project = {}) {
+  return {
+    sectionHeader: { title: 'Work', description: 'Selected projects' },
+    projects: [{
+      id: 'orbit',
+      title: 'Orbit',
+      description: 'Skill orbit visualisation',
+      category: 'web',
+      ...project
+    }]
+  };
+}
+
+function skills(metadata = {}) {
+  return {
+    sectionHeader: { title: 'Skills', description: 'Toolkit', casualPitch: 'Hi', toolkitNote: 'Note' },
+    skills: [{ label: 'Frontend', skills: 'Angular, TypeScript' }],
+    metadata
+  };
+}
+
+describe('content schemas', () => {
+  test('every route names the asset it replaces and a validator', () => {
+    for (const [name, { localPath, validate }] of Object.entries(CONTENT_TYPES)) {
+      assert.match(localPath, /^\/assets\/data\/[\w-]+\.json$/, name);
+      assert.equal(typeof validate, 'function', name);
+    }
+  });
+
+  test('reports the same issues as the frontend validators on the shared fixtures', () => {
+    const fixtures = JSON.parse(fs.readFileSync(SHARED_FIXTURES, 'utf8'));
+    assert.deepEqual(Object.keys(fixtures).sort(), Object.keys(CONTENT_TYPES).sort());
+
+    for (const [name, { validate }] of Object.entries(CONTENT_TYPES)) {
+      for (const fixture of fixtures[name]) {
+        assert.deepEqual(validate(fixture.value), fixture.issues, `${name}: ${fixture.name}`);
+      }
+    }
+  });
+
+  test('a minimal portfolio is valid, with optional fields left out or null', () => {
+    assert.deepEqual(validatePortfolio(portfolio()), []);
+    assert.deepEqual(validatePortfolio(portfolio({ link: null, metadata: { tech: ['Angular'], featured: true } })), []);
+  });
+
+  test('reports the path and the type of every failing field', () => {
+    assert.deepEqual(validatePortfolio(portfolio({ title: 7, category: undefined })), [
+      { path: 'projects[0].title', message: 'expected string, got number' },
+      { path: 'projects[0].category', message: 'expected string, got undefined' }
+    ]);
+    assert.deepEqual(validatePortfolio({ sectionHeader: null, projects: {} }), [
+      { path: 'sectionHeader', message: 'expected object, got null' },
+      { path: 'projects', message: 'expected array, got object' }
+    ]);
+    assert.deepEqual(validatePortfolio([]), [{ path: '(root)', message: 'expected object, got array' }]);
+  });
+
+  test('enumerations accept only their listed values', () => {
+    assert.deepEqual(validatePortfolio(portfolio({ metadata: { status: 'paused' } })), [
+      { path: 'projects[0].metadata.status', message: 'expected one of completed | in-progress | archived, got "paused"' }
+    ]);
+    assert.deepEqual(validatePortfolio(portfolio({ background: { type: 'canvas', content: 'starfield', attributes: [] } })), [
+      { path: 'projects[0].background.attributes', message: 'expected object, got array' }
+    ]);
+  });
+
+  test('validates the project detail fields: longDescription and gallery', () => {
+    const gallery = [
+      { type: 'image', src: '/assets/images/orbit.png', caption: 'Overview' },
+      { type: 'video', src: '/assets/videos/orbit.mp4' },
+      { type: 'iframe', src: 'https://example.com/demo' }
+    ];
+    assert.deepEqual(validatePortfolio(portfolio({ longDescription: 'In depth', gallery })), []);
+
+    assert.deepEqual(validatePortfolio(portfolio({
+      longDescription: ['In depth'],
+      gallery: [{ type: 'html', src: '<b>hi</b>' }, { type: 'image', caption: 3 }]
+    })), [
+      { path: 'projects[0].longDescription', message: 'expected string, got array' },
+      { path: 'projects[0].gallery[0].type', message: 'expected one of image | video | iframe, got "html"' },
+      { path: 'projects[0].gallery[1].src', message: 'expected string, got undefined' },
+      { path: 'projects[0].gallery[1].caption', message: 'expected string, got number' }
+    ]);
+  });
+
+
+  test('checks nested skills metadata', () => {
+    assert.deepEqual(validateSkills(skills({ itemsPerRow: { desktop: 4, mobile: 2 }, cv: { url: '/cv.pdf', enabled: true } })), []);
+    assert.deepEqual(validateSkills(skills({ itemsPerRow: { desktop: '4', mobile: 2 }, orbitConfig: { direction: 'up' } })), [
+      { path: 'metadata.itemsPerRow.desktop', message: 'expected number, got string' },
+      { path: 'metadata.orbitConfig.maxOrbits', message: 'expected number, got undefined' },
+      { path: 'metadata.orbitConfig.size', message: 'expected object, got undefined' },
+      { path: 'metadata.orbitConfig.animation', message: 'expected object, got undefined' },
+      { path: 'metadata.orbitConfig.direction', message: 'expected one of alternating | clockwise | counterclockwise, got "up"' }
+    ]);
+  });
+});
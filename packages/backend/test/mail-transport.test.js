@@ -0,0 +1,121 @@
+const { describe, test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { MboxTransport, SmtpTransport, createMailTransport, escapeFromLines, formatMessage } = require('../mail-transport');
+
+const MAIL = {
+  from: 'Portfolio <no-reply@example.com>',
+  to: 'owner@example.com',
+  replyTo: 'ada@example.com',
+  subject: 'Hello',
+  text: 'Line one\nLine two',
+  date: new Date('2026-10-19T04:24:55Z')
+};
+
+/**
+ * Header block of a formatted message, one entry per line
+ */
+function headerLines(message) {
+  return message.slice(0, message.indexOf('\r\n\r\n')).split('\r\n');
+}
+
+describe('formatMessage', () => {
+  test('writes CRLF headers and a base64 body', () => {
+    const message = formatMessage(MAIL);
+    const lines = headerLines(message);
+    assert.deepEqual(lines.filter((line) => !line.startsWith('Message-ID:')), [
+      'From: Portfolio <no-reply@example.com>',
+      'To: owner@example.com',
+      'Reply-To: ada@example.com',
+      'Subject: Hello',
+      'Date: Mon, 19 Oct 2026 04:24:55 GMT',
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64'
+    ]);
+    assert.match(lines.find((line) => line.startsWith('Message-ID:')), /^Message-ID: <[\w-]+@example\.com>$/);
+
+    const body = message.slice(message.indexOf('\r\n\r\n') + 4);
+    assert.equal(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8'), MAIL.text);
+  });
+
+  test('strips CR and LF from header values so they cannot add headers', () => {
+    const lines = headerLines(formatMessage({
+      ...MAIL,
+      to: 'owner@example.com\r\nBcc: victim@example.com',
+      replyTo: 'ada@example.com\nX-Injected: 1',
+      subject: 'Hi\r\nBcc: victim@example.com'
+    }));
+    assert.equal(lines.length, 9);
+    assert.ok(lines.every((line) => !/^(Bcc|X-Injected):/.test(line)));
+    assert.ok(lines.includes('To: owner@example.com Bcc: victim@example.com'));
+    assert.ok(lines.includes('Subject: Hi Bcc: victim@example.com'));
+  });
+
+  test('encodes non-ASCII subjects as RFC 2047 encoded-words', () => {
+    const lines = headerLines(formatMessage({ ...MAIL, subject: 'Grüße' }));
+    assert.ok(lines.includes(`Subject: =?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`));
+  });
+});
+
+describe('MboxTransport', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-transport-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('appends messages with a From separator and LF line endings', async () => {
+    const transport = new MboxTransport(path.join(dir, 'nested', 'contact.mbox'));
+    await transport.send(MAIL);
+    await transport.send({ ...MAIL, subject: 'Again' });
+
+    const content = fs.readFileSync(transport.filePath, 'utf8');
+    const separators = content.split('\n').filter((line) => line.startsWith('From '));
+    assert.deepEqual(separators, [
+      'From no-reply@example.com Mon Oct 19 04:24:55 2026',
+      'From no-reply@example.com Mon Oct 19 04:24:55 2026'
+    ]);
+    assert.equal(content.includes('\r'), false);
+  });
+
+  test('keeps separators unambiguous when a sender address has line breaks', async () => {
+    const transport = new MboxTransport(path.join(dir, 'contact.mbox'));
+    await transport.send({ ...MAIL, from: 'no-reply@example.com\nFrom attacker@example.com' });
+
+    const lines = fs.readFileSync(transport.filePath, 'utf8').split('\n');
+    assert.equal(lines.filter((line) => line.startsWith('From ')).length, 1);
+    assert.ok(lines.includes('From: no-reply@example.com From attacker@example.com'));
+  });
+});
+
+describe('escapeFromLines', () => {
+  test('quotes From lines the mboxrd way, adding one > to lines already quoted', () => {
+    assert.equal(
+      escapeFromLines('From here\n>From there\n>>From afar\nFrom: header\n From indented\nFromage'),
+      '>From here\n>>From there\n>>>From afar\nFrom: header\n From indented\nFromage'
+    );
+  });
+});
+
+describe('createMailTransport', () => {
+  test('defaults to mbox and supports none and smtp', () => {
+    assert.ok(createMailTransport({}) instanceof MboxTransport);
+    assert.equal(createMailTransport({ CONTACT_TRANSPORT: 'none' }), null);
+
+    const smtp = createMailTransport({ CONTACT_TRANSPORT: 'SMTP', SMTP_HOST: 'mail.example.com', SMTP_SECURE: 'true' });
+    assert.ok(smtp instanceof SmtpTransport);
+    assert.equal(smtp.options.port, 465);
+  });
+
+  test('refuses an incomplete or unknown configuration', () => {
+    assert.throws(() => createMailTransport({ CONTACT_TRANSPORT: 'smtp' }), /SMTP_HOST/);
+    assert.throws(() => createMailTransport({ CONTACT_TRANSPORT: 'carrier-pigeon' }), /Unknown CONTACT_TRANSPORT/);
+  });
+});
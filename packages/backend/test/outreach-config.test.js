@@ -0,0 +1,124 @@
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Readable } = require('stream');
+const { OutreachConfigError, OutreachConfigSource, resolveConfigLocation } = require('../outreach-config');
+
+const DRIVE_CONFIG_URL = 'https://drive.google.com/uc?export=download&id=outreach';
+
+/**
+ * Upstream response as the source fetch resolves it
+ */
+function upstreamResponse(statusCode, body = '', headers = {}) {
+  const response = Readable.from([Buffer.from(body)]);
+  response.statusCode = statusCode;
+  response.headers = headers;
+  return response;
+}
+
+describe('resolveConfigLocation', () => {
+  let frontendDir;
+
+  before(() => {
+    frontendDir = fs.mkdtempSync(path.join(os.tmpdir(), 'outreach-config-'));
+    fs.mkdirSync(path.join(frontendDir, 'src/assets'), { recursive: true });
+    fs.mkdirSync(path.join(frontendDir, 'public/assets'), { recursive: true });
+    fs.writeFileSync(path.join(frontendDir, 'public/assets/outreachConfig.json'), '{}');
+    fs.writeFileSync(path.join(frontendDir, 'src/assets/environment.json'), JSON.stringify({
+      defaultProfile: 'production',
+      profiles: {
+        production: { outreach: { configPath: DRIVE_CONFIG_URL } },
+        docker: { outreach: { configPath: '/assets/outreachConfig.json' } },
+        bare: {}
+      }
+    }));
+  });
+
+  after(() => {
+    fs.rmSync(frontendDir, { recursive: true, force: true });
+  });
+
+  test('follows outreach.configPath of the default profile', () => {
+    assert.deepEqual(resolveConfigLocation({ FRONTEND_DIR: frontendDir }), {
+      location: DRIVE_CONFIG_URL,
+      profile: 'production'
+    });
+  });
+
+  test('resolves asset paths to the frontend files, with the default path when a profile names none', () => {
+    const expected = path.join(frontendDir, 'public/assets/outreachConfig.json');
+    for (const profile of ['docker', 'bare']) {
+      assert.deepEqual(resolveConfigLocation({ FRONTEND_DIR: frontendDir, ENVIRONMENT_PROFILE: profile }), {
+        location: expected,
+        profile
+      });
+    }
+  });
+
+  test('accepts an OUTREACH_CONFIG_PATH that matches the profile', () => {
+    const env = { FRONTEND_DIR: frontendDir, OUTREACH_CONFIG_PATH: DRIVE_CONFIG_URL };
+    assert.equal(resolveConfigLocation(env).location, DRIVE_CONFIG_URL);
+  });
+
+  test('refuses an OUTREACH_CONFIG_PATH the frontend does not load, and unknown profiles', () => {
+    assert.throws(
+      () => resolveConfigLocation({ FRONTEND_DIR: frontendDir, OUTREACH_CONFIG_PATH: './outreachConfig.json' }),
+      (error) => error instanceof OutreachConfigError && /differs from outreach\.configPath of the "production" profile/.test(error.message)
+    );
+    assert.throws(
+      () => resolveConfigLocation({ FRONTEND_DIR: frontendDir, ENVIRONMENT_PROFILE: 'staging' }),
+      OutreachConfigError
+    );
+  });
+});
+
+describe('OutreachConfigSource', () => {
+  test('loads a remote config, then revalidates it with its ETag', async () => {
+    const calls = [];
+    const responses = [
+      upstreamResponse(200, '\uFEFF{"/assets/data/portfolio.json":["github://me/site/portfolio.json","local"]}', { etag: '"v1"' }),
+      upstreamResponse(304)
+    ];
+    const source = new OutreachConfigSource({
+      location: DRIVE_CONFIG_URL,
+      refreshIntervalMs: 60000,
+      fetch: async (url, options) => {
+        calls.push({ url, options });
+        return responses.shift();
+      }
+    });
+
+    await source.load();
+    assert.equal(source.loaded, true);
+    assert.equal(source.getConfigUrl(), DRIVE_CONFIG_URL);
+    assert.deepEqual(source.getSources('assets/data/portfolio.json').map((item) => item.url), ['github://me/site/portfolio.json']);
+
+    await source.refreshRemote();
+    assert.deepEqual(calls.map((call) => call.options.headers), [{}, { 'if-none-match': '"v1"' }]);
+    assert.equal(source.getAllSources().length, 1);
+  });
+
+  test('keeps the previous config when a reload fails', async () => {
+    const responses = [
+      upstreamResponse(200, '{"/a.json":"https://example.com/a.json"}'),
+      upstreamResponse(200, '[]'),
+      upstreamResponse(503)
+    ];
+    const source = new OutreachConfigSource({
+      location: DRIVE_CONFIG_URL,
+      refreshIntervalMs: 60000,
+      fetch: async () => responses.shift()
+    });
+
+    await source.load();
+    await source.refreshRemote();
+    await source.refreshRemote();
+    assert.deepEqual(source.getAllSources().map((item) => item.url), ['https://example.com/a.json']);
+  });
+
+  test('a URL config needs a fetch function', () => {
+    assert.throws(() => new OutreachConfigSource({ location: DRIVE_CONFIG_URL }), OutreachConfigError);
+  });
+});
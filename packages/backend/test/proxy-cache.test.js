@@ -0,0 +1,162 @@
+const { describe, test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { ProxyCache, computeEtag } = require('../proxy-cache');
+
+const URL_A = 'https://example.com/a.json';
+const URL_B = 'https://example.com/b.json';
+const URL_C = 'https://example.com/c.json';
+
+/**
+ * Just enough of an Express response to record what the cache sends
+ */
+function fakeResponse() {
+  return {
+    headers: {},
+    statusCode: null,
+    body: undefined,
+    set(name, value) {
+      this.headers[name.toLowerCase()] = value;
+      return this;
+    },
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    end(body) {
+      this.body = body;
+      return this;
+    }
+  };
+}
+
+describe('ProxyCache', () => {
+  let now;
+
+  beforeEach((t) => {
+    now = Date.parse('2024-05-01T12:00:00Z');
+    t.mock.method(Date, 'now', () => now);
+  });
+
+  test('serves fresh entries as hits, then expired ones until the stale-if-error window ends', () => {
+    const cache = new ProxyCache({ ttlMs: 60000, staleIfErrorMs: 120000, maxBytes: 1024 });
+    cache.set(URL_A, { 'content-type': 'application/json' }, Buffer.from('{}'));
+
+    assert.ok(cache.isFresh(cache.get(URL_A)));
+
+    now += 90000;
+    const stale = cache.get(URL_A);
+    assert.ok(stale);
+    assert.equal(cache.isFresh(stale), false);
+
+    now += 120000;
+    assert.equal(cache.get(URL_A), null);
+    assert.equal(cache.getStats().entries, 0);
+    assert.deepEqual([cache.stats.hits, cache.stats.misses], [1, 2]);
+  });
+
+  test('refresh extends an entry after a 304 and keeps the new Date', () => {
+    const cache = new ProxyCache({ ttlMs: 60000, staleIfErrorMs: 0, maxBytes: 1024 });
+    const entry = cache.set(URL_A, { date: 'Wed, 01 May 2024 12:00:00 GMT' }, Buffer.from('{}'));
+
+    now += 61000;
+    assert.equal(cache.isFresh(entry), false);
+    cache.refresh(entry, { date: 'Wed, 01 May 2024 12:01:01 GMT' });
+    assert.equal(cache.isFresh(entry), true);
+    assert.equal(entry.headers.date, 'Wed, 01 May 2024 12:01:01 GMT');
+    assert.equal(cache.maxAgeSeconds(entry), 60);
+    assert.equal(cache.stats.revalidated, 1);
+  });
+
+  test('keeps the upstream ETag for revalidation, or computes one from the body', () => {
+    const cache = new ProxyCache({ ttlMs: 60000, maxBytes: 1024 });
+    const withEtag = cache.set(URL_A, { etag: '"v1"', 'x-powered-by': 'upstream' }, Buffer.from('a'));
+    assert.equal(withEtag.upstreamEtag, '"v1"');
+    assert.equal(withEtag.etag, '"v1"');
+    assert.deepEqual(withEtag.headers, { etag: '"v1"' });
+
+    const body = Buffer.from('b');
+    const withoutEtag = cache.set(URL_B, {}, body);
+    assert.equal(withoutEtag.upstreamEtag, null);
+    assert.equal(withoutEtag.etag, computeEtag(body));
+    assert.match(withoutEtag.etag, /^"[\w-]+"$/);
+  });
+
+  test('does not store private, no-store or oversized responses, nor anything when disabled', () => {
+    const cache = new ProxyCache({ ttlMs: 60000, maxBytes: 1024, maxEntryBytes: 4 });
+    assert.equal(cache.set(URL_A, { 'cache-control': 'private, max-age=60' }, Buffer.from('a')), null);
+    assert.equal(cache.set(URL_A, { 'cache-control': 'No-Store' }, Buffer.from('a')), null);
+    assert.equal(cache.set(URL_A, {}, Buffer.from('too big')), null);
+
+    const disabled = new ProxyCache({ ttlMs: 0, maxBytes: 1024 });
+    assert.equal(disabled.enabled, false);
+    assert.equal(disabled.set(URL_A, {}, Buffer.from('a')), null);
+    assert.equal(cache.getStats().entries, 0);
+  });
+
+  test('evicts least recently used entries to stay within maxBytes', () => {
+    const cache = new ProxyCache({ ttlMs: 60000, maxBytes: 10 });
+    cache.set(URL_A, {}, Buffer.alloc(4));
+    cache.set(URL_B, {}, Buffer.alloc(4));
+    cache.get(URL_A);
+    cache.set(URL_C, {}, Buffer.alloc(4));
+
+    assert.deepEqual([...cache.entries.keys()], [URL_A, URL_C]);
+    assert.equal(cache.getStats().bytes, 8);
+    assert.equal(cache.stats.evictions, 1);
+  });
+
+  test('replacing an entry accounts for its old size', () => {
+    const cache = new ProxyCache({ ttlMs: 60000, maxBytes: 10 });
+    cache.set(URL_A, {}, Buffer.alloc(6));
+    cache.set(URL_A, {}, Buffer.alloc(8));
+    assert.equal(cache.getStats().bytes, 8);
+    assert.equal(cache.stats.evictions, 0);
+
+    assert.equal(cache.remove(URL_A), true);
+    assert.equal(cache.remove(URL_A), false);
+    assert.equal(cache.getStats().bytes, 0);
+  });
+
+  test('respond replays stored headers and answers a matching If-None-Match with 304', () => {
+    const cache = new ProxyCache({ ttlMs: 60000, staleIfErrorMs: 3600000, maxBytes: 1024 });
+    const entry = cache.set(URL_A, {
+      'content-type': 'application/json',
+      date: 'Wed, 01 May 2024 12:00:00 GMT',
+      etag: '"v1"'
+    }, Buffer.from('{"ok":true}'));
+    now += 15000;
+
+    const full = fakeResponse();
+    cache.respond({ headers: {} }, full, entry, 'HIT');
+    assert.equal(full.statusCode, 200);
+    assert.equal(full.body.toString(), '{"ok":true}');
+    assert.deepEqual(full.headers, {
+      'x-cache': 'HIT',
+      'cache-control': 'public, max-age=45, stale-if-error=3600',
+      etag: '"v1"',
+      age: '15',
+      'content-type': 'application/json',
+      date: 'Wed, 01 May 2024 12:00:00 GMT',
+      'content-length': '11'
+    });
+
+    for (const ifNoneMatch of ['"v0", W/"v1"', '*']) {
+      const notModified = fakeResponse();
+      cache.respond({ headers: { 'if-none-match': ifNoneMatch } }, notModified, entry, 'HIT');
+      assert.equal(notModified.statusCode, 304);
+      assert.equal(notModified.body, undefined);
+    }
+
+    const mismatch = fakeResponse();
+    cache.respond({ headers: { 'if-none-match': '"v2"' } }, mismatch, entry, 'STALE');
+    assert.equal(mismatch.statusCode, 200);
+  });
+
+  test('clear empties the cache and returns how many entries it dropped', () => {
+    const cache = new ProxyCache({ ttlMs: 60000, maxBytes: 1024 });
+    cache.set(URL_A, {}, Buffer.from('a'));
+    cache.set(URL_B, {}, Buffer.from('b'));
+    assert.equal(cache.clear(), 2);
+    assert.deepEqual([cache.getStats().entries, cache.getStats().bytes], [0, 0]);
+  });
+});
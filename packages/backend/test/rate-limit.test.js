@@ -0,0 +1,178 @@
+const { describe, test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { MemoryBucketStore, RateLimitError, RateLimiter, createRateLimiters } = require('../rate-limit');
+
+const POLICY = { capacity: 3, refillPerSecond: 1 };
+
+/**
+ * Just enough of an Express response to record what a limiter sends
+ */
+function fakeResponse() {
+  return {
+    headers: {},
+    statusCode: 200,
+    body: null,
+    set(name, value) {
+      this.headers[name] = value;
+      return this;
+    },
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    }
+  };
+}
+
+describe('MemoryBucketStore', () => {
+  let now;
+
+  beforeEach((t) => {
+    now = 1000000;
+    t.mock.method(Date, 'now', () => now);
+  });
+
+  test('allows a burst up to capacity, then reports when the next token arrives', async () => {
+    const store = new MemoryBucketStore();
+    for (const remaining of [2, 1, 0]) {
+      const result = await store.take('ip:a', POLICY);
+      assert.equal(result.allowed, true);
+      assert.equal(result.remaining, remaining);
+      assert.equal(result.retryAfterMs, 0);
+    }
+
+    const refused = await store.take('ip:a', POLICY);
+    assert.equal(refused.allowed, false);
+    assert.equal(refused.retryAfterMs, 1000);
+    assert.equal(refused.resetMs, 3000);
+  });
+
+  test('refills for the elapsed time without exceeding capacity', async () => {
+    const store = new MemoryBucketStore();
+    for (let i = 0; i < 3; i++) {
+      await store.take('ip:a', POLICY);
+    }
+
+    now += 1500;
+    assert.equal((await store.take('ip:a', POLICY)).allowed, true);
+    assert.equal((await store.take('ip:a', POLICY)).allowed, false);
+
+    now += 60000;
+    assert.equal((await store.take('ip:a', POLICY)).remaining, POLICY.capacity - 1);
+  });
+
+  test('keeps separate buckets per key and honours the cost', async () => {
+    const store = new MemoryBucketStore();
+    assert.equal((await store.take('ip:a', POLICY, 3)).allowed, true);
+    assert.equal((await store.take('ip:a', POLICY)).allowed, false);
+    assert.equal((await store.take('ip:b', POLICY)).allowed, true);
+    assert.equal(await store.size(), 2);
+  });
+
+  test('sweep drops buckets once they are full again', async () => {
+    const store = new MemoryBucketStore();
+    await store.take('ip:a', POLICY);
+    await store.take('ip:b', POLICY, 3);
+
+    now += 1000;
+    store.sweep();
+    assert.equal(await store.size(), 1);
+
+    now += 2000;
+    store.sweep();
+    assert.equal(await store.size(), 0);
+  });
+});
+
+describe('RateLimiter', () => {
+  beforeEach((t) => {
+    t.mock.method(Date, 'now', () => 1000000);
+  });
+
+  test('throws RateLimitError once the bucket is empty and counts both outcomes', async () => {
+    const limiter = new RateLimiter('ip', { store: new MemoryBucketStore(), capacity: 1, refillPerSecond: 0.5 });
+    await limiter.consume('198.51.100.7');
+
+    await assert.rejects(limiter.consume('198.51.100.7'), (error) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.scope, 'ip');
+      assert.equal(error.retryAfterSeconds, 2);
+      return true;
+    });
+    assert.deepEqual(await limiter.getStats(), { enabled: true, capacity: 1, refillPerSecond: 0.5, allowed: 1, limited: 1 });
+  });
+
+  test('a capacity or refill rate of 0 disables it', async () => {
+    const store = new MemoryBucketStore();
+    for (const options of [{ capacity: 0, refillPerSecond: 1 }, { capacity: 5, refillPerSecond: 0 }]) {
+      const limiter = new RateLimiter('ip', { store, ...options });
+      assert.equal(limiter.enabled, false);
+      assert.equal(await limiter.consume('198.51.100.7'), null);
+    }
+    assert.equal(await store.size(), 0);
+  });
+
+  test('middleware sets RateLimit headers, then answers 429 with Retry-After', async () => {
+    const limiter = new RateLimiter('ip', { store: new MemoryBucketStore(), capacity: 2, refillPerSecond: 0.1 });
+    const middleware = limiter.middleware((req) => req.ip);
+    const req = { ip: '198.51.100.7' };
+
+    const allowed = fakeResponse();
+    let nextCalls = 0;
+    await middleware(req, allowed, () => nextCalls++);
+    assert.equal(nextCalls, 1);
+    assert.deepEqual(allowed.headers, {
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '1',
+      'RateLimit-Reset': '10',
+      'RateLimit-Policy': '2;w=20'
+    });
+
+    await middleware(req, fakeResponse(), () => nextCalls++);
+    const refused = fakeResponse();
+    await middleware(req, refused, () => nextCalls++);
+    assert.equal(nextCalls, 2);
+    assert.equal(refused.statusCode, 429);
+    assert.equal(refused.headers['Retry-After'], '10');
+    assert.equal(refused.headers['RateLimit-Remaining'], '0');
+    assert.deepEqual(refused.body, { error: 'Too many requests', code: 'RATE_LIMITED', scope: 'ip', retryAfter: 10 });
+  });
+
+  test('middleware skips requests without a key', async () => {
+    const limiter = new RateLimiter('ip', { store: new MemoryBucketStore(), capacity: 1, refillPerSecond: 1 });
+    const res = fakeResponse();
+    let nextCalls = 0;
+    await limiter.middleware(() => null)({}, res, () => nextCalls++);
+    assert.equal(nextCalls, 1);
+    assert.deepEqual(res.headers, {});
+  });
+});
+
+describe('createRateLimiters', () => {
+  const VARIABLES = ['RATE_LIMIT_IP_CAPACITY', 'RATE_LIMIT_IP_REFILL_PER_SEC', 'RATE_LIMIT_TARGET_CAPACITY'];
+
+  beforeEach((t) => {
+    const saved = Object.fromEntries(VARIABLES.map((name) => [name, process.env[name]]));
+    t.after(() => {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    });
+  });
+
+  test('reads RATE_LIMIT_* variables and falls back on invalid values', () => {
+    process.env.RATE_LIMIT_IP_CAPACITY = '10';
+    process.env.RATE_LIMIT_IP_REFILL_PER_SEC = '0';
+    process.env.RATE_LIMIT_TARGET_CAPACITY = '-4';
+
+    const limiters = createRateLimiters();
+    assert.deepEqual(limiters.ip.policy, { capacity: 10, refillPerSecond: 0 });
+    assert.equal(limiters.ip.enabled, false);
+    assert.deepEqual(limiters.target.policy, { capacity: 30, refillPerSecond: 0.5 });
+    assert.equal(limiters.contact.store, limiters.store);
+  });
+});
@@ -0,0 +1,80 @@
+const { describe, test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { EventEmitter } = require('events');
+const https = require('https');
+const { Readable } = require('stream');
+const { ProxyAllowlist, safeLookup } = require('../proxy-allowlist');
+const { createUpstreamFetcher } = require('../upstream');
+
+describe('createUpstreamFetcher', () => {
+  let hops;
+  let responses;
+  let allowlist;
+  let fetchUpstream;
+
+  beforeEach((t) => {
+    // Answers each https.get with the next queued { statusCode, headers }, recording the hop
+    hops = [];
+    responses = [];
+    t.mock.method(https, 'get', (url, options, callback) => {
+      hops.push({ url: url.href, lookup: options.lookup });
+      const request = new EventEmitter();
+      request.setTimeout = () => request;
+      request.destroy = () => undefined;
+      const { statusCode, headers = {} } = responses.shift();
+      process.nextTick(() => callback(Object.assign(Readable.from([]), { statusCode, headers })));
+      return request;
+    });
+
+    const outreachConfig = {
+      getConfigUrl: () => null,
+      getAllSources: () => [{ url: 'https://cdn.example.com/notes.json' }, { url: 'https://mirror.example.net/notes.json' }]
+    };
+    allowlist = new ProxyAllowlist(outreachConfig, { hosts: [] });
+    t.mock.method(allowlist, 'assertAllowed');
+    fetchUpstream = createUpstreamFetcher(allowlist);
+  });
+
+  test('checks every redirect hop against the allowlist and connects through safeLookup', async () => {
+    responses.push(
+      { statusCode: 302, headers: { location: 'https://mirror.example.net/notes.json' } },
+      { statusCode: 301, headers: { location: '/v2/notes.json' } },
+      { statusCode: 200 }
+    );
+
+    const response = await fetchUpstream('https://cdn.example.com/notes.json');
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(allowlist.assertAllowed.mock.calls.map((call) => call.arguments[0]), [
+      'https://cdn.example.com/notes.json',
+      'https://mirror.example.net/notes.json',
+      'https://mirror.example.net/v2/notes.json'
+    ]);
+    assert.equal(hops.length, 3);
+    assert.ok(hops.every((hop) => hop.lookup === safeLookup));
+  });
+
+  test('refuses a redirect to a host that is not allowlisted, without connecting to it', async () => {
+    responses.push({ statusCode: 302, headers: { location: 'https://evil.example.org/steal' } });
+
+    await assert.rejects(fetchUpstream('https://cdn.example.com/notes.json'), { code: 'HOST_NOT_ALLOWED' });
+    assert.deepEqual(hops.map((hop) => hop.url), ['https://cdn.example.com/notes.json']);
+  });
+
+  test('refuses a redirect to an internal address or another scheme', async () => {
+    responses.push({ statusCode: 307, headers: { location: 'http://169.254.169.254/latest/meta-data/' } });
+    await assert.rejects(fetchUpstream('https://cdn.example.com/notes.json'), { code: 'SCHEME_NOT_ALLOWED' });
+
+    const internal = new ProxyAllowlist({ getConfigUrl: () => null, getAllSources: () => [] }, { hosts: ['cdn.example.com', '169.254.169.254'] });
+    responses.push({ statusCode: 302, headers: { location: 'https://169.254.169.254/latest/meta-data/' } });
+    await assert.rejects(createUpstreamFetcher(internal)('https://cdn.example.com/notes.json'), { code: 'ADDRESS_BLOCKED' });
+    assert.equal(hops.length, 2);
+  });
+
+  test('gives up after too many redirects', async () => {
+    for (let i = 0; i < 5; i++) {
+      responses.push({ statusCode: 302, headers: { location: `https://cdn.example.com/hop-${i}` } });
+    }
+    await assert.rejects(fetchUpstream('https://cdn.example.com/notes.json'), /Too many redirects/);
+    assert.equal(hops.length, 5);
+  });
+});
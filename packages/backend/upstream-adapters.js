@@ -0,0 +1,164 @@
+const dns = require('dns');
+const { URL } = require('url');
+const { ProxyRejectionError, safeLookup } = require('./proxy-allowlist');
+const { logger } = require('./logger');
+const { metrics } = require('./metrics');
+const { AdapterError, createUpstreamFetcher } = require('./upstream');
+const { createDriveAdapter } = require('./drive-adapter');
+const { createDropboxAdapter } = require('./dropbox-adapter');
+const { createGithubAdapter } = require('./github-adapter');
+const { createS3Adapter } = require('./s3-adapter');
+
+const SCHEME_PATTERN = /^([a-z][a-z0-9+.-]*):\/\//i;
+
+/**
+ * Allowlist for one adapter endpoint. The operator chose it, so internal addresses
+ * (a MinIO container, a local stub) are fine; redirects elsewhere are not.
+ */
+class EndpointAllowlist {
+  constructor(endpoint) {
+    this.origin = new URL(endpoint).origin;
+  }
+
+  assertAllowed(rawUrl) {
+    const parsedUrl = new URL(rawUrl);
+    if (parsedUrl.origin !== this.origin) {
+      const error = new ProxyRejectionError('HOST_NOT_ALLOWED', `Host ${parsedUrl.hostname} is not allowed`);
+      error.hostname = parsedUrl.hostname.toLowerCase();
+      throw error;
+    }
+    return parsedUrl;
+  }
+}
+
+/**
+ * Routes source URLs to the adapter registered for their scheme; http(s) URLs use the generic fetch.
+ *
+ * Adapter interface:
+ * - scheme: URL scheme with colon, e.g. 'github:'
+ * - endpoint: base URL the adapter talks to (probed by /health)
+ * - configured / authenticated: required / optional credentials are set
+ * - fetch(url, options) → final upstream response, as from createUpstreamFetcher
+ */
+class AdapterRegistry {
+  /**
+   * @param allowlist ProxyAllowlist for http(s) targets
+   * @param outreachConfig OutreachConfigSource; adapter URLs must appear in it (or be its own URL) to be proxied
+   * @param fetchUpstream allowlisted fetch for http(s) targets
+   * @param targetLimiter RateLimiter shared with fetchUpstream, applied to adapter endpoints too
+   */
+  constructor({ allowlist, outreachConfig, fetchUpstream, targetLimiter = null }) {
+    this.allowlist = allowlist;
+    this.outreachConfig = outreachConfig;
+    this.fetchUpstream = fetchUpstream;
+    this.targetLimiter = targetLimiter;
+    this.adapters = new Map();
+    this.trustedOrigins = new Set();
+  }
+
+  register(adapter) {
+    this.adapters.set(adapter.scheme, adapter);
+    return this;
+  }
+
+  /**
+   * Fetch limited to one operator-configured endpoint (see EndpointAllowlist)
+   */
+  endpointFetcher(endpoint) {
+    const allowlist = new EndpointAllowlist(endpoint);
+    this.trustedOrigins.add(allowlist.origin);
+    return createUpstreamFetcher(allowlist, this.targetLimiter, dns.lookup);
+  }
+
+  adapterFor(url) {
+    const match = typeof url === 'string' ? url.match(SCHEME_PATTERN) : null;
+    return match ? this.adapters.get(`${match[1].toLowerCase()}:`) || null : null;
+  }
+
+  /**
+   * Check a proxy target before it is served or looked up in the cache.
+   * Adapters read with the server's credentials, so only adapter URLs named in the outreach config are served,
+   * plus the config's own URL (the frontend loads it through the proxy).
+   */
+  assertAllowed(url) {
+    if (!this.adapterFor(url)) {
+      this.allowlist.assertAllowed(url);
+      return;
+    }
+    const configured = url === this.outreachConfig.getConfigUrl()
+      || this.outreachConfig.getAllSources().some((source) => source.url === url);
+    if (!configured) {
+      throw new ProxyRejectionError('SOURCE_NOT_CONFIGURED', `${url} is not a source in the outreach config`);
+    }
+  }
+
+  /**
+   * Fetch any source URL; a missing or unreadable adapter file becomes an AdapterError
+   */
+  async fetch(url, options = {}) {
+    const adapter = this.adapterFor(url);
+    if (!adapter) {
+      return this.fetchUpstream(url, options);
+    }
+
+    try {
+      const response = await adapter.fetch(url, options);
+      if (response.statusCode === 404) {
+        response.resume();
+        throw new AdapterError('SOURCE_NOT_FOUND', `${url} does not exist`, 404);
+      }
+      if (response.statusCode === 401 || response.statusCode === 403) {
+        response.resume();
+        throw new AdapterError('SOURCE_ACCESS_DENIED', `Access to ${url} was denied (status ${response.statusCode})`, 403);
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof AdapterError) {
+        metrics.upstreamErrors.inc({ class: 'adapter' });
+        (options.log || logger).warn('source adapter failed', { url, scheme: adapter.scheme, code: error.code, reason: error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * What /health probes for a source: its adapter's endpoint, or the URL's own origin
+   */
+  probeTarget(url) {
+    const adapter = this.adapterFor(url);
+    const origin = new URL(adapter ? adapter.endpoint : url).origin;
+    return { origin, lookup: this.trustedOrigins.has(origin) ? dns.lookup : safeLookup };
+  }
+
+  /**
+   * Registered adapters and their credential state (for logging and /health)
+   */
+  describe() {
+    return [...this.adapters.values()].map(({ scheme, endpoint, configured, authenticated }) => ({
+      scheme,
+      endpoint,
+      configured,
+      authenticated
+    }));
+  }
+}
+
+/**
+ * Registry with the built-in adapters, configured from env variables:
+ * github:// (GITHUB_*), s3:// (S3_*), dropbox:// (DROPBOX_*) and drive://
+ */
+function createAdapterRegistry({ allowlist, outreachConfig, fetchUpstream, targetLimiter }, env = process.env) {
+  const registry = new AdapterRegistry({ allowlist, outreachConfig, fetchUpstream, targetLimiter });
+  const createFetcher = (endpoint) => registry.endpointFetcher(endpoint);
+
+  return registry
+    .register(createGithubAdapter(createFetcher, env))
+    .register(createS3Adapter(createFetcher, env))
+    .register(createDropboxAdapter(createFetcher, env))
+    .register(createDriveAdapter(fetchUpstream));
+}
+
+module.exports = {
+  AdapterRegistry,
+  createAdapterRegistry
+};
@@ -0,0 +1,254 @@
+const https = require('https');
+const http = require('http');
+const { URL } = require('url');
+const { safeLookup } = require('./proxy-allowlist');
+const { logger } = require('./logger');
+const { metrics, classifyUpstreamError } = require('./metrics');
+
+// Prevent infinite redirect loops
+const MAX_REDIRECTS = 5;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Reachability probes for /health
+const PROBE_TIMEOUT_MS = 3000;
+const PROBE_CACHE_MS = 30000;
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'application/json, text/plain, */*',
+  'Accept-Language': 'en-US,en;q=0.9'
+};
+
+/**
+ * Upstream response that could not be used (non-2xx status, oversized or unreadable body)
+ */
+class UpstreamError extends Error {
+  constructor(message, status = null) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = status;
+  }
+}
+
+/**
+ * Source adapter failure (bad source URL, missing credentials, file missing or not readable)
+ */
+class AdapterError extends Error {
+  constructor(code, message, status = 502) {
+    super(message);
+    this.name = 'AdapterError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Create a fetch function that only reaches allowlisted targets.
+ * The returned function follows redirects and resolves with the final response (body not yet consumed).
+ * Each fetch is logged once its body ends, with latency, status, bytes and redirect count.
+ *
+ * @param allowlist ProxyAllowlist checked on every hop
+ * @param targetLimiter Optional RateLimiter keyed by host; every hop takes a token (throws RateLimitError)
+ * @param lookup DNS lookup for connections; safeLookup refuses internal addresses
+ */
+function createUpstreamFetcher(allowlist, targetLimiter = null, lookup = safeLookup) {
+  /**
+   * @param options { headers, timeoutMs, log } — log is the request's child logger
+   */
+  async function fetchUpstream(url, options = {}) {
+    const log = options.log || logger;
+    const state = { redirects: 0, start: process.hrtime.bigint() };
+
+    try {
+      const response = await requestHop(url, options, state);
+      instrumentResponse(response, url, state, log);
+      return response;
+    } catch (error) {
+      const errorClass = classifyUpstreamError(error);
+      metrics.upstreamErrors.inc({ class: errorClass });
+      log.warn('upstream request failed', {
+        url,
+        errorClass,
+        redirects: state.redirects,
+        latencyMs: elapsedMs(state.start),
+        error
+      });
+      throw error;
+    }
+  }
+
+  async function requestHop(url, options, state) {
+    const { headers = {}, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+    if (state.redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects (${MAX_REDIRECTS})`);
+    }
+
+    // Every hop is checked: the allowlist here, resolved addresses in safeLookup
+    const parsedUrl = allowlist.assertAllowed(url);
+    if (targetLimiter) {
+      await targetLimiter.consume(parsedUrl.hostname.toLowerCase());
+    }
+    const protocol = parsedUrl.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = protocol.get(parsedUrl, {
+        lookup,
+        headers: { ...REQUEST_HEADERS, ...headers }
+      }, (response) => {
+        // Handle redirects (3xx status codes)
+        if (response.statusCode >= 300 && response.statusCode < 400 && response.headers.location) {
+          // Clean up the current response
+          response.destroy();
+
+          let absoluteUrl;
+          try {
+            // Resolve relative redirect targets against the current hop
+            absoluteUrl = new URL(response.headers.location, url).href;
+          } catch (_urlError) {
+            reject(new Error(`Invalid redirect URL: ${response.headers.location}`));
+            return;
+          }
+
+          state.redirects++;
+          metrics.upstreamRedirects.inc({ host: parsedUrl.hostname });
+          (options.log || logger).debug('upstream redirect', { from: url, to: absoluteUrl, status: response.statusCode });
+
+          requestHop(absoluteUrl, options, state)
+            .then(resolve)
+            .catch(reject);
+          return;
+        }
+
+        state.finalHost = parsedUrl.hostname;
+        resolve(response);
+      });
+
+      // Handle request errors
+      request.on('error', reject);
+
+      // Handle timeout
+      request.setTimeout(timeoutMs, () => {
+        request.destroy();
+        reject(new Error('Request timeout'));
+      });
+    });
+  }
+
+  return fetchUpstream;
+}
+
+/**
+ * Record timing and status metrics for the final response, and log it once the body is done
+ */
+function instrumentResponse(response, url, state, log) {
+  const latencyMs = elapsedMs(state.start);
+  const host = state.finalHost;
+  metrics.upstreamDuration.observe({ host }, latencyMs / 1000);
+  metrics.upstreamRequests.inc({ host, status_class: `${Math.floor(response.statusCode / 100)}xx` });
+
+  let bytes = 0;
+  let logged = false;
+  response.on('data', (chunk) => {
+    bytes += chunk.length;
+  });
+
+  const done = () => {
+    if (logged) return;
+    logged = true;
+    log.info('upstream response', {
+      url,
+      host,
+      status: response.statusCode,
+      redirects: state.redirects,
+      latencyMs,
+      durationMs: elapsedMs(state.start),
+      bytes,
+      complete: response.complete
+    });
+  };
+  response.once('end', done);
+  response.once('close', done);
+}
+
+function elapsedMs(start) {
+  return Math.round(Number(process.hrtime.bigint() - start) / 1e6);
+}
+
+/**
+ * Buffer a response body, giving up once it exceeds maxBytes
+ */
+function readBody(response, maxBytes) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let length = 0;
+
+    response.on('data', (chunk) => {
+      length += chunk.length;
+      if (length > maxBytes) {
+        response.destroy();
+        reject(new UpstreamError(`Response exceeds ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks)));
+    response.on('error', reject);
+  });
+}
+
+/**
+ * HEAD an origin without following redirects; any HTTP answer counts as reachable
+ */
+function probeOrigin(origin, lookup = safeLookup, timeoutMs = PROBE_TIMEOUT_MS) {
+  const start = process.hrtime.bigint();
+  const protocol = origin.startsWith('https:') ? https : http;
+
+  return new Promise((resolve) => {
+    const request = protocol.request(origin, { method: 'HEAD', lookup, headers: REQUEST_HEADERS }, (response) => {
+      response.resume();
+      resolve({ origin, reachable: true, status: response.statusCode, latencyMs: elapsedMs(start) });
+    });
+    request.on('error', (error) => {
+      resolve({ origin, reachable: false, latencyMs: elapsedMs(start), error: error.message });
+    });
+    request.setTimeout(timeoutMs, () => request.destroy(new Error('Probe timeout')));
+    request.end();
+  });
+}
+
+/**
+ * Reachability of every configured upstream origin, probed at most once per PROBE_CACHE_MS
+ *
+ * @param getTargets () => [{ origin, lookup }] to probe; duplicate origins are probed once
+ */
+function createReachabilityCheck(getTargets) {
+  let cached = null;
+  let pending = null;
+
+  return async function checkReachability() {
+    if (cached && Date.now() - cached.checkedAt < PROBE_CACHE_MS) {
+      return cached;
+    }
+    if (!pending) {
+      const targets = new Map(getTargets().map((target) => [target.origin, target.lookup]));
+      pending = Promise.all([...targets].map(([origin, lookup]) => probeOrigin(origin, lookup)))
+        .then((upstreams) => {
+          cached = { checkedAt: Date.now(), upstreams };
+          return cached;
+        })
+        .finally(() => {
+          pending = null;
+        });
+    }
+    return pending;
+  };
+}
+
+module.exports = {
+  AdapterError,
+  UpstreamError,
+  createReachabilityCheck,
+  createUpstreamFetcher,
+  readBody
+};
@@ -1,11 +1,17 @@
 import { Component } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
+import { ContentUpdateToastComponent } from './components/shared/content-update-toast/content-update-toast.component';
+import { OfflineBannerComponent } from './components/shared/offline-banner/offline-banner.component';
+import { UpdatePromptComponent } from './components/shared/update-prompt/update-prompt.component';
 
 @Component({
   selector: 'app-root',
   standalone: true,
   imports: [
     RouterOutlet,
+    ContentUpdateToastComponent,
+    OfflineBannerComponent,
+    UpdatePromptComponent,
   ],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss']
@@ -9,6 +9,11 @@ export const routes: Routes = [
     path: 'fish-engine',
     loadComponent: () => import('./components/fish-engine/main.component').then(m => m.FishEngineMainComponent)
   },
+  {
+    // Unknown ids render a not-found state on the page itself
+    path: 'projects/:id',
+    loadComponent: () => import('./components/project-detail/main.component').then(m => m.ProjectDetailMainComponent)
+  },
   {
     path: '**',
     redirectTo: ''
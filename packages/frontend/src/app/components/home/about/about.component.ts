@@ -3,6 +3,7 @@ import { CommonModule } from '@angular/common';
 import { ProfileShowcaseComponent } from './profile-showcase/profile-showcase.component';
 import { JourneyTimelineComponent } from './journey-timeline/journey-timeline.component';
 import { ConnectCollaborateComponent } from './connect-collaborate/connect-collaborate.component';
+import { ContactFormComponent } from './contact-form/contact-form.component';
 import { SeparatorComponent } from '../../shared/separator/separator.component';
 
 @Component({
@@ -13,6 +14,7 @@ import { SeparatorComponent } from '../../shared/separator/separator.component';
     ProfileShowcaseComponent,
     JourneyTimelineComponent,
     ConnectCollaborateComponent,
+    ContactFormComponent,
     SeparatorComponent
   ],
   templateUrl: './about.component.html',
@@ -0,0 +1,142 @@
+import { Component, DestroyRef, OnInit, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { AbstractControl, NonNullableFormBuilder, ReactiveFormsModule, ValidationErrors, Validators } from '@angular/forms';
+import { CONTACT_LIMITS, ContactField, ContactService, ContactSubmitError } from '../../../../services/contact.service';
+import { SecurityService } from '../../../../services/security.service';
+
+type ContactFormStatus = 'idle' | 'sending' | 'sent' | 'error';
+
+@Component({
+  selector: 'app-contact-form',
+  standalone: true,
+  imports: [ReactiveFormsModule],
+  templateUrl: './contact-form.component.html',
+  styleUrls: ['./contact-form.component.scss']
+})
+export class ContactFormComponent implements OnInit {
+  private contactService = inject(ContactService);
+  private securityService = inject(SecurityService);
+  private formBuilder = inject(NonNullableFormBuilder);
+  private destroyRef = inject(DestroyRef);
+
+  readonly limits = CONTACT_LIMITS;
+
+  // Hidden entirely when the active profile has no contact endpoint
+  available = signal(false);
+  status = signal<ContactFormStatus>('idle');
+  errorMessage = signal<string | null>(null);
+  serverErrors = signal<Partial<Record<ContactField, string>>>({});
+  reference = signal<string | null>(null);
+
+  form = this.formBuilder.group({
+    name: ['', [Validators.required, Validators.maxLength(CONTACT_LIMITS.name)]],
+    email: ['', [Validators.required, Validators.maxLength(CONTACT_LIMITS.email), (control: AbstractControl) => this.validateEmail(control)]],
+    subject: ['', [Validators.maxLength(CONTACT_LIMITS.subject)]],
+    message: ['', [Validators.required, Validators.minLength(CONTACT_LIMITS.messageMin), Validators.maxLength(CONTACT_LIMITS.message)]],
+    // Honeypot: people never see it, bots fill it in
+    website: ['']
+  });
+
+  async ngOnInit() {
+    // A server-side message stops applying once its field is edited
+    (['name', 'email', 'subject', 'message'] as const).forEach(field => {
+      this.form.controls[field].valueChanges
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe(() => {
+          if (this.serverErrors()[field]) {
+            this.serverErrors.update(({ [field]: _removed, ...rest }) => rest);
+          }
+        });
+    });
+
+    this.available.set(await this.contactService.isAvailable());
+  }
+
+  /**
+   * Message to show under a field, or null
+   */
+  fieldError(field: Exclude<ContactField, 'form'>): string | null {
+    const serverError = this.serverErrors()[field];
+    if (serverError) {
+      return serverError;
+    }
+
+    const control = this.form.controls[field];
+    if (!control.invalid || !control.touched) {
+      return null;
+    }
+    if (control.hasError('required')) {
+      return field === 'email' ? 'Please enter your email address' : field === 'name' ? 'Please enter your name' : 'Please write a message';
+    }
+    if (control.hasError('email')) {
+      return 'Please enter a valid email address';
+    }
+    if (control.hasError('minlength')) {
+      return `Message must be at least ${CONTACT_LIMITS.messageMin} characters`;
+    }
+    if (control.hasError('maxlength')) {
+      return `Must be at most ${control.getError('maxlength').requiredLength} characters`;
+    }
+    return null;
+  }
+
+  async submit() {
+    if (this.status() === 'sending') {
+      return;
+    }
+
+    this.form.markAllAsTouched();
+    if (this.form.invalid) {
+      return;
+    }
+
+    if (!this.securityService.canSubmitForm()) {
+      this.fail('You have sent several messages in a short time. Please wait a few minutes before trying again.');
+      return;
+    }
+
+    this.status.set('sending');
+    this.errorMessage.set(null);
+    this.serverErrors.set({});
+
+    const { name, email, subject, message, website } = this.form.getRawValue();
+    try {
+      const id = await this.contactService.send({
+        name: name.trim(),
+        email: email.trim(),
+        subject: subject.trim(),
+        message: message.trim(),
+        website
+      });
+      this.reference.set(id);
+      this.status.set('sent');
+      this.form.reset();
+    } catch (error) {
+      if (error instanceof ContactSubmitError) {
+        this.serverErrors.set(error.fields);
+        this.fail(error.fields.form ?? error.message);
+      } else {
+        this.fail('The message could not be sent. Please try again later.');
+      }
+    }
+  }
+
+  sendAnother() {
+    this.reference.set(null);
+    this.status.set('idle');
+  }
+
+  // ==========================================
+  // PRIVATE IMPLEMENTATION
+  // ==========================================
+
+  private validateEmail(control: AbstractControl): ValidationErrors | null {
+    const value = String(control.value ?? '').trim();
+    return !value || this.securityService.isValidEmail(value) ? null : { email: true };
+  }
+
+  private fail(message: string) {
+    this.errorMessage.set(message);
+    this.status.set('error');
+  }
+}
@@ -1,57 +1,36 @@
-import { Injectable } from '@angular/core';
-import { Observable, throwError, from } from 'rxjs';
-import { catchError, map, switchMap } from 'rxjs/operators';
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
 import { DataLoadingService } from '../../../../services/data-loading.service';
 import { IAboutContent, IAboutDataResult, ITimelineData } from '../journey-timeline/about.types';
 
+const ABOUT_CONTENT_PATH = 'assets/data/about-content.json';
+
 @Injectable({
   providedIn: 'root'
 })
 export class AboutContentService {
-  private isLoadingData = false; // Guard against multiple simultaneous calls
+  private dataLoadingService = inject(DataLoadingService);
 
-  constructor(private dataLoadingService: DataLoadingService) {}
+  // Shared resource for about-content.json (loading/error/refresh state lives there)
+  readonly resource = this.dataLoadingService.resource<IAboutContent>(ABOUT_CONTENT_PATH);
 
   /**
-   * Load about content from JSON file - NEW CLEAN API
+   * Load about content - emits the current content and any later refreshes
    */
-  async loadAboutContent(): Promise<Observable<IAboutContent>> {
-    // Prevent multiple simultaneous calls
-    if (this.isLoadingData) {
-      // Return a promise that resolves to an empty observable if already loading
-      return new Promise(resolve => resolve(new Observable()));
-    }
-
-    this.isLoadingData = true;
-
-    try {
-      // NEW CLEAN API - Just specify the endpoint, service handles everything else
-      const content = await this.dataLoadingService.getData<IAboutContent>('assets/data/about-content.json');
-
-      // Return as observable for compatibility
-      return new Observable<IAboutContent>(observer => {
-        observer.next(content);
-        observer.complete();
-      });
-    } finally {
-      this.isLoadingData = false;
-    }
+  loadAboutContent(): Observable<IAboutContent> {
+    return this.resource.value$;
   }
 
   /**
    * Load about content and extract timeline data
    */
   loadAboutData(): Observable<IAboutDataResult> {
-    return from(this.loadAboutContent()).pipe(
-      switchMap(observable => observable),
+    return this.loadAboutContent().pipe(
       map((content: IAboutContent) => ({
         content,
         timelineData: this.extractTimelineData(content)
-      })),
-      catchError(error => {
-        console.error('Failed to load about data:', error);
-        return throwError(() => error);
-      })
+      }))
     );
   }
 
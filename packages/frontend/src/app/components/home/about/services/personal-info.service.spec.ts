@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { DataLoadError, DataLoadingService } from '../../../../services/data-loading.service';
+import { DataResourceLoader, DataResourceRef } from '../../../../services/data-resource';
+import { IPersonalInfo, PersonalInfoService } from './personal-info.service';
+
+// Lets settled loads run their then/catch callbacks
+const flush = () => new Promise(resolve => setTimeout(resolve));
+
+const INFO = { name: 'Ada', title: 'Engineer' } as IPersonalInfo;
+
+describe('PersonalInfoService', () => {
+  let loader: jasmine.SpyObj<DataResourceLoader<IPersonalInfo>> & { updates: Subject<IPersonalInfo> };
+  let service: PersonalInfoService;
+
+  beforeEach(() => {
+    loader = {
+      ...jasmine.createSpyObj<DataResourceLoader<IPersonalInfo>>('loader', ['fetch', 'invalidate', 'sourceOf']),
+      updates: new Subject<IPersonalInfo>()
+    };
+    loader.sourceOf.and.returnValue('local');
+    const resource = new DataResourceRef(loader);
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: DataLoadingService, useValue: { resource: () => resource } }]
+    });
+    service = TestBed.inject(PersonalInfoService);
+  });
+
+  it('errors when the load fails, and loads again past the failure cache when subscribed again', async () => {
+    const failure = new DataLoadError('Offline', 'DataLoadError', '/assets/data/personal-info.json');
+    loader.fetch.and.returnValues(Promise.reject(failure), Promise.resolve(INFO));
+    const received: IPersonalInfo[] = [];
+    const errors: unknown[] = [];
+
+    service.getPersonalInfo().subscribe({ next: info => received.push(info), error: error => errors.push(error) });
+    await flush();
+    expect(errors).toEqual([failure]);
+    expect(service.resource.status()).toBe('error');
+
+    service.getPersonalInfo().subscribe({ next: info => received.push(info), error: error => errors.push(error) });
+    await flush();
+    expect(loader.invalidate).toHaveBeenCalledTimes(1);
+    expect(loader.fetch).toHaveBeenCalledTimes(2);
+    expect(received).toEqual([INFO]);
+    expect(errors.length).toBe(1);
+  });
+
+  it('emits loaded data and later background refreshes, never the empty state', async () => {
+    loader.fetch.and.resolveTo(INFO);
+    const received: IPersonalInfo[] = [];
+
+    service.getPersonalInfo().subscribe(info => received.push(info));
+    await flush();
+    const refreshed = { ...INFO, title: 'Architect' };
+    loader.updates.next(refreshed);
+
+    expect(received).toEqual([INFO, refreshed]);
+    expect(loader.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,7 +1,10 @@
-import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, of, filter } from 'rxjs';
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { distinctUntilChanged, filter, map } from 'rxjs/operators';
 import { DataLoadingService } from '../../../../services/data-loading.service';
 
+const PERSONAL_INFO_PATH = 'assets/data/personal-info.json';
+
 export interface ISocialPlatform {
   platform: string;
   title: string;
@@ -52,89 +55,52 @@ export interface IPersonalInfo {
   providedIn: 'root'
 })
 export class PersonalInfoService {
-  private personalInfoSubject = new BehaviorSubject<IPersonalInfo | null>(null);
-  private loadingSubject = new BehaviorSubject<boolean>(false);
-  private errorSubject = new BehaviorSubject<string | null>(null);
-
-  // Public observables
-  public personalInfo$ = this.personalInfoSubject.asObservable();
-  public loading$ = this.loadingSubject.asObservable();
-  public error$ = this.errorSubject.asObservable();
-
-  // Cached data to prevent multiple HTTP requests
-  private cachedPersonalInfo: IPersonalInfo | null = null;
-  private isLoading = false;
+  private dataLoadingService = inject(DataLoadingService);
 
-  constructor(private dataLoadingService: DataLoadingService) {}
-
-  /**
-   * Get personal info observable - triggers loading if not cached
-   */
-  getPersonalInfo(): Observable<IPersonalInfo | null> {
-    // If we have cached data, return it immediately
-    if (this.cachedPersonalInfo) {
-      return of(this.cachedPersonalInfo);
-    }
+  // Shared resource for personal-info.json (loading/error/refresh state lives there)
+  readonly resource = this.dataLoadingService.resource<IPersonalInfo>(PERSONAL_INFO_PATH);
 
-    // If already loading, return the observable (will emit when loaded)
-    if (this.isLoading) {
-      return this.personalInfo$;
-    }
-
-    // Start loading
-    this.loadPersonalInfo();
-    return this.personalInfo$;
-  }
+  // Public observables
+  public personalInfo$ = this.resource.state$.pipe(map(state => state.value), distinctUntilChanged());
+  public loading$ = this.resource.state$.pipe(map(state => state.status === 'loading' || state.status === 'reloading'), distinctUntilChanged());
+  public error$ = this.resource.state$.pipe(map(state => state.error?.message ?? null), distinctUntilChanged());
 
   /**
-   * Internal method to load personal info
+   * Get personal info observable - triggers loading on subscription.
+   * Errors when the load fails with nothing to show; subscribing again retries.
    */
-  private async loadPersonalInfo(): Promise<void> {
-    if (this.isLoading || this.cachedPersonalInfo) {
-      return;
-    }
-
-    try {
-      this.isLoading = true;
-      this.loadingSubject.next(true);
-      this.errorSubject.next(null);
-
-      const data = await this.dataLoadingService.getData<IPersonalInfo>('assets/data/personal-info.json');
-
-      this.cachedPersonalInfo = data;
-      this.personalInfoSubject.next(data);
-      this.loadingSubject.next(false);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to load personal info';
-      this.errorSubject.next(errorMessage);
-      this.loadingSubject.next(false);
-      this.personalInfoSubject.next(null);
-    } finally {
-      this.isLoading = false;
-    }
+  getPersonalInfo(): Observable<IPersonalInfo> {
+    return this.resource.state$.pipe(
+      map(state => {
+        if (state.status === 'error' && state.value === null) {
+          throw state.error;
+        }
+        return state.value;
+      }),
+      filter((value): value is IPersonalInfo => value !== null),
+      distinctUntilChanged()
+    );
   }
 
   /**
    * Get current personal info synchronously (for templates)
    */
   getCurrentPersonalInfo(): IPersonalInfo | null {
-    return this.personalInfoSubject.value;
+    return this.resource.value();
   }
 
   /**
    * Retry loading data
    */
   async retry(): Promise<void> {
-    this.cachedPersonalInfo = null; // Reset cache
-    this.personalInfoSubject.next(null);
-    await this.getPersonalInfo();
+    // Failures are surfaced through error$
+    await this.resource.reload().catch(() => undefined);
   }
 
   /**
    * Clear cache
    */
   clearCache(): void {
-    this.cachedPersonalInfo = null;
-    this.personalInfoSubject.next(null);
+    this.dataLoadingService.clearCache(PERSONAL_INFO_PATH);
   }
 }
@@ -1,74 +1,42 @@
-import { Injectable } from '@angular/core';
-import { Observable, BehaviorSubject, of, filter } from 'rxjs';
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
 import { DataLoadingService } from '../../../../services/data-loading.service';
 import { SkillsData, OrbitConfig as IOrbitConfig, OrbitStyles as IOrbitStyles } from '../../../../models/skills-definitions';
 
 // Use the unified SkillsData interface instead of ISkillsData
 type ISkillsData = SkillsData;
 
+const SKILLS_DATA_PATH = 'assets/data/skills.json';
+
 @Injectable({
   providedIn: 'root'
 })
 export class SkillsService {
-  private skillsDataSubject = new BehaviorSubject<ISkillsData | null>(null);
-  private loadingSubject = new BehaviorSubject<boolean>(false);
-  private errorSubject = new BehaviorSubject<string | null>(null);
-
-  // Public observables
-  public skillsData$ = this.skillsDataSubject.asObservable();
-  public loading$ = this.loadingSubject.asObservable();
-  public error$ = this.errorSubject.asObservable();
+  private dataLoadingService = inject(DataLoadingService);
 
-  // Cached data to prevent multiple HTTP requests
-  private cachedSkillsData: ISkillsData | null = null;
-  private isLoading = false;
+  // Shared resource for skills.json (loading/error/refresh state lives there)
+  readonly resource = this.dataLoadingService.resource<ISkillsData>(SKILLS_DATA_PATH);
 
-  constructor(private dataLoadingService: DataLoadingService) {}
+  // Public observables
+  public skillsData$ = this.resource.state$.pipe(map(state => state.value), distinctUntilChanged());
+  public loading$ = this.resource.state$.pipe(map(state => state.status === 'loading' || state.status === 'reloading'), distinctUntilChanged());
+  public error$ = this.resource.state$.pipe(map(state => state.error?.message ?? null), distinctUntilChanged());
 
   /**
-   * Get skills data with unified loading logic
+   * Get skills data with unified loading logic.
+   * The returned observable also emits later background refreshes.
    */
   async getSkillsData(): Promise<Observable<ISkillsData>> {
-    if (this.cachedSkillsData) {
-      // Return cached data
-      return of(this.cachedSkillsData);
-    }
-
-    if (this.isLoading) {
-      // Wait for ongoing request - return non-null observable
-      return this.skillsData$.pipe(
-        filter((data): data is ISkillsData => data !== null)
-      );
-    }
-
-    try {
-      this.isLoading = true;
-      this.loadingSubject.next(true);
-      this.errorSubject.next(null);
-
-      // Use the unified getData method with direct path
-      const data = await this.dataLoadingService.getData<ISkillsData>('assets/data/skills.json');
-
-      this.cachedSkillsData = data;
-      this.skillsDataSubject.next(data);
-      this.loadingSubject.next(false);
-
-      return of(data);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to load skills data';
-      this.errorSubject.next(errorMessage);
-      this.loadingSubject.next(false);
-      throw error;
-    } finally {
-      this.isLoading = false;
-    }
+    await this.resource.load();
+    return this.resource.value$;
   }
 
   /**
    * Get current skills data synchronously (for templates)
    */
   getCurrentSkillsData(): ISkillsData | null {
-    return this.skillsDataSubject.value;
+    return this.resource.value();
   }
 
   /**
@@ -100,17 +68,14 @@ export class SkillsService {
    * Retry loading data
    */
   async retry(): Promise<void> {
-    this.cachedSkillsData = null; // Reset cache
-    this.skillsDataSubject.next(null);
-    await this.getSkillsData();
+    await this.resource.reload();
   }
 
   /**
    * Clear cache
    */
   clearCache(): void {
-    this.cachedSkillsData = null;
-    this.skillsDataSubject.next(null);
+    this.dataLoadingService.clearCache(SKILLS_DATA_PATH);
   }
 }
 
@@ -39,22 +39,19 @@ export class TimelineService {
     }
 
     this.initialized = true;
-    this.loadingSubject.next(true);
-    this.errorSubject.next(null);
-
-    this.aboutContentService.loadAboutData().subscribe({
-      next: (result) => {
-        // Store full about content
-        this.aboutContentSubject.next(result.content);
-
-        this.timelineDataSubject.next(result.timelineData);
-        this.contentBlocksSubject.next(result.content.contentBlocks);
-        this.loadingSubject.next(false);
-      },
-      error: (error) => {
-        this.errorSubject.next(error.message || 'Failed to load timeline data');
-        this.loadingSubject.next(false);
+
+    // The resource's state stream never errors, so one subscription covers retries and refreshes
+    this.aboutContentService.resource.state$.subscribe(state => {
+      if (state.value) {
+        this.aboutContentSubject.next(state.value);
+        this.contentBlocksSubject.next(state.value.contentBlocks);
       }
+      this.loadingSubject.next(state.status === 'idle' || state.status === 'loading');
+      this.errorSubject.next(state.error ? state.error.message || 'Failed to load timeline data' : null);
+    });
+
+    this.aboutContentService.loadAboutData().subscribe(result => {
+      this.timelineDataSubject.next(result.timelineData);
     });
   }
 
@@ -121,6 +118,7 @@ export class TimelineService {
    * Retry data loading
    */
   retry(): void {
-    this.initializeData();
+    // Failures are surfaced through error$
+    this.aboutContentService.resource.reload().catch(() => undefined);
   }
 }
\ No newline at end of file
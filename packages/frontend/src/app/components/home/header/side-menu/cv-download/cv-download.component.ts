@@ -3,6 +3,7 @@ import { CommonModule, isPlatformBrowser } from '@angular/common';
 import { Subject, takeUntil, fromEvent, timer, interval, Observable, Subscription } from 'rxjs';
 import type { MenuAction } from '../../header.types';
 import { DataLoadingService } from '../../../../../services/data-loading.service';
+import { isAbortError } from '../../../../../services/request-scheduler';
 
 interface IHologramLayer {
   id: string;
@@ -49,10 +50,13 @@ export class CvDownloadComponent implements OnInit, OnDestroy {
   private particleInterval: any;
   private easterEggTimer: any;
   private menuInteractionSubscription?: Subscription;
+  private downloadAbort: AbortController | null = null;
   
   // Component states
   isHovered = false;
   isDownloading = false;
+  /** Fraction of the CV downloaded (0-1), or null while the total size is unknown */
+  downloadProgress: number | null = null;
   showRainbow = false;
   
   // Hologram system
@@ -90,6 +94,7 @@ export class CvDownloadComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy() {
+    this.downloadAbort?.abort();
     this.destroy$.next();
     this.destroy$.complete();
     this.stopAllAnimations();
@@ -474,8 +479,13 @@ export class CvDownloadComponent implements OnInit, OnDestroy {
       console.warn('CV URL not provided');
       return;
     }
+    if (this.isDownloading) {
+      return;
+    }
 
     this.isDownloading = true;
+    this.downloadProgress = 0;
+    this.downloadAbort = new AbortController();
 
     // Materialization effect
     if (!this.shouldReduceMotion) {
@@ -485,8 +495,13 @@ export class CvDownloadComponent implements OnInit, OnDestroy {
     }
 
     try {
-      // Use the enhanced DataLoadingService to fetch the PDF
-      const pdfBlob = await this.dataLoadingService.getBlob(this.cvUrl);
+      // Use the enhanced DataLoadingService to fetch the PDF, tracking real download progress
+      const pdfBlob = await this.dataLoadingService.getBlob(this.cvUrl, {
+        signal: this.downloadAbort.signal,
+        onProgress: event => {
+          this.downloadProgress = event.total ? event.loaded / event.total : null;
+        }
+      });
 
       // Create download link with the blob
       const blobUrl = URL.createObjectURL(pdfBlob);
@@ -500,12 +515,15 @@ export class CvDownloadComponent implements OnInit, OnDestroy {
       // Clean up the blob URL
       URL.revokeObjectURL(blobUrl);
 
-      setTimeout(() => {
-        this.isDownloading = false;
-      }, 1000);
+      this.isDownloading = false;
+      this.downloadProgress = null;
     } catch (error) {
-      console.error('Failed to download CV:', error);
       this.isDownloading = false;
+      this.downloadProgress = null;
+      if (isAbortError(error)) {
+        return;
+      }
+      console.error('Failed to download CV:', error);
 
       // Fallback to direct link if blob download fails
       const link = document.createElement('a');
@@ -514,9 +532,15 @@ export class CvDownloadComponent implements OnInit, OnDestroy {
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+    } finally {
+      this.downloadAbort = null;
     }
   }
 
+  get downloadPercent(): number | null {
+    return this.downloadProgress === null ? null : Math.round(this.downloadProgress * 100);
+  }
+
   private stopAllAnimations() {
     if (this.animationFrame) {
       cancelAnimationFrame(this.animationFrame);
@@ -0,0 +1,266 @@
+/**
+ * Named animations for 'canvas' card backgrounds: background.content picks one,
+ * background.attributes tune it (color, secondaryColor, speed, density).
+ */
+export interface CardCanvasOptions {
+  color: string;
+  secondaryColor: string;
+  /** Multiplier, 1 = default pace */
+  speed: number;
+  /** Multiplier, 1 = default amount of shapes */
+  density: number;
+}
+
+export interface CardCanvasAnimation {
+  /** Called with CSS pixel dimensions whenever the canvas changes size */
+  resize(width: number, height: number): void;
+  /** Draws one frame; time in milliseconds since the animation started */
+  render(time: number): void;
+}
+
+type CardCanvasAnimationFactory = (ctx: CanvasRenderingContext2D, options: CardCanvasOptions) => CardCanvasAnimation;
+
+// ==========================================
+// BUILT-IN ANIMATIONS
+// ==========================================
+
+/**
+ * Drifting dots linked when close to each other
+ */
+const particles: CardCanvasAnimationFactory = (ctx, options) => {
+  let width = 0;
+  let height = 0;
+  let dots: { x: number; y: number; vx: number; vy: number }[] = [];
+  const linkDistance = 80;
+
+  return {
+    resize(w, h) {
+      width = w;
+      height = h;
+      const count = Math.round((w * h) / 6000 * options.density);
+      dots = Array.from({ length: Math.min(count, 150) }, () => ({
+        x: Math.random() * w,
+        y: Math.random() * h,
+        vx: (Math.random() - 0.5) * 0.6,
+        vy: (Math.random() - 0.5) * 0.6
+      }));
+    },
+    render() {
+      ctx.clearRect(0, 0, width, height);
+      for (const dot of dots) {
+        dot.x += dot.vx * options.speed;
+        dot.y += dot.vy * options.speed;
+        if (dot.x < 0 || dot.x > width) dot.vx *= -1;
+        if (dot.y < 0 || dot.y > height) dot.vy *= -1;
+      }
+
+      ctx.strokeStyle = options.secondaryColor;
+      for (let i = 0; i < dots.length; i++) {
+        for (let j = i + 1; j < dots.length; j++) {
+          const distance = Math.hypot(dots[i].x - dots[j].x, dots[i].y - dots[j].y);
+          if (distance < linkDistance) {
+            ctx.globalAlpha = 1 - distance / linkDistance;
+            ctx.beginPath();
+            ctx.moveTo(dots[i].x, dots[i].y);
+            ctx.lineTo(dots[j].x, dots[j].y);
+            ctx.stroke();
+          }
+        }
+      }
+
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = options.color;
+      for (const dot of dots) {
+        ctx.beginPath();
+        ctx.arc(dot.x, dot.y, 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  };
+};
+
+/**
+ * Layered sine waves
+ */
+const waves: CardCanvasAnimationFactory = (ctx, options) => {
+  let width = 0;
+  let height = 0;
+
+  return {
+    resize(w, h) {
+      width = w;
+      height = h;
+    },
+    render(time) {
+      ctx.clearRect(0, 0, width, height);
+      const layers = Math.max(1, Math.round(4 * options.density));
+      const t = time * 0.001 * options.speed;
+
+      for (let layer = 0; layer < layers; layer++) {
+        const progress = layer / layers;
+        ctx.beginPath();
+        ctx.moveTo(0, height);
+        for (let x = 0; x <= width; x += 8) {
+          const y = height * (0.45 + progress * 0.12)
+            + Math.sin(x * 0.015 + t * (1 + progress) + layer) * height * 0.08;
+          ctx.lineTo(x, y);
+        }
+        ctx.lineTo(width, height);
+        ctx.closePath();
+        ctx.globalAlpha = 0.25 + progress * 0.2;
+        ctx.fillStyle = layer % 2 ? options.secondaryColor : options.color;
+        ctx.fill();
+      }
+      ctx.globalAlpha = 1;
+    }
+  };
+};
+
+/**
+ * Dots circling the centre on concentric rings
+ */
+const orbits: CardCanvasAnimationFactory = (ctx, options) => {
+  let width = 0;
+  let height = 0;
+
+  return {
+    resize(w, h) {
+      width = w;
+      height = h;
+    },
+    render(time) {
+      ctx.clearRect(0, 0, width, height);
+      const cx = width / 2;
+      const cy = height / 2;
+      const rings = Math.max(1, Math.round(4 * options.density));
+      const maxRadius = Math.min(width, height) * 0.42;
+      const t = time * 0.001 * options.speed;
+
+      for (let ring = 1; ring <= rings; ring++) {
+        const radius = (maxRadius / rings) * ring;
+        ctx.globalAlpha = 0.25;
+        ctx.strokeStyle = options.secondaryColor;
+        ctx.beginPath();
+        ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+        ctx.stroke();
+
+        const satellites = ring + 1;
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = options.color;
+        for (let s = 0; s < satellites; s++) {
+          // Inner rings turn faster
+          const angle = t * (1.5 / ring) * (ring % 2 ? 1 : -1) + (s / satellites) * Math.PI * 2;
+          ctx.beginPath();
+          ctx.arc(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius, 3, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      }
+    }
+  };
+};
+
+const CARD_CANVAS_ANIMATIONS: Record<string, CardCanvasAnimationFactory> = {
+  particles,
+  waves,
+  orbits
+};
+
+export function isCardCanvasAnimation(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CARD_CANVAS_ANIMATIONS, name);
+}
+
+// ==========================================
+// RUNNER
+// ==========================================
+
+/**
+ * Mounts a named animation on a canvas: sizes it for the device pixel ratio,
+ * runs it only while visible and draws a single frame under reduced motion
+ */
+export class CardCanvasRunner {
+  private animation: CardCanvasAnimation;
+  private ctx: CanvasRenderingContext2D;
+  private animationId?: number;
+  private resizeObserver?: ResizeObserver;
+  private intersectionObserver?: IntersectionObserver;
+  private visible = true;
+  private startTime = 0;
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    name: string,
+    options: CardCanvasOptions,
+    private reducedMotion: boolean
+  ) {
+    const ctx = canvas.getContext('2d');
+    if (!ctx || !isCardCanvasAnimation(name)) {
+      throw new Error(`Unknown canvas animation: ${name}`);
+    }
+    this.ctx = ctx;
+    this.animation = CARD_CANVAS_ANIMATIONS[name](ctx, options);
+  }
+
+  init(): void {
+    this.resize();
+    this.startTime = performance.now();
+
+    if (typeof ResizeObserver !== 'undefined' && this.canvas.parentElement) {
+      this.resizeObserver = new ResizeObserver(() => this.resize());
+      this.resizeObserver.observe(this.canvas.parentElement);
+    }
+
+    if (this.reducedMotion) {
+      this.animation.render(0);
+      return;
+    }
+
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.intersectionObserver = new IntersectionObserver(([entry]) => {
+        this.visible = entry.isIntersecting;
+        if (this.visible) this.loop();
+      });
+      this.intersectionObserver.observe(this.canvas);
+    }
+    this.loop();
+  }
+
+  destroy(): void {
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId);
+    }
+    this.resizeObserver?.disconnect();
+    this.intersectionObserver?.disconnect();
+  }
+
+  private loop(): void {
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId);
+    }
+    const frame = (now: number) => {
+      this.animation.render(now - this.startTime);
+      // Offscreen cards stop scheduling frames until they scroll back in
+      this.animationId = this.visible ? requestAnimationFrame(frame) : undefined;
+    };
+    this.animationId = requestAnimationFrame(frame);
+  }
+
+  private resize(): void {
+    const container = this.canvas.parentElement;
+    if (!container) return;
+
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    const ratio = window.devicePixelRatio || 1;
+
+    this.canvas.width = Math.round(width * ratio);
+    this.canvas.height = Math.round(height * ratio);
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+    this.ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+    this.animation.resize(width, height);
+    if (this.reducedMotion) {
+      this.animation.render(0);
+    }
+  }
+}
@@ -1,15 +1,22 @@
 import { Component, Input, OnInit, OnDestroy, inject, signal, ElementRef, ViewChild, AfterViewInit } from '@angular/core';
 
-import { CommonModule } from '@angular/common';
+import { CommonModule, DOCUMENT } from '@angular/common';
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
+import { Params, Router } from '@angular/router';
 import { AnimatedCardDemoComponent } from '../../animated-card-demo/animated-card-demo.component';
 import { LoadingComponent } from '../../../shared/loading/loading.component';
+import { EmbedFrameDirective, cssUrl, resolveEmbedUrl } from '../../../shared/embed-frame/embed-frame.directive';
 import { PortfolioCardData, PortfolioCardConfig } from './portfolio-card.interface';
+import { DataLoadingService } from '../../../../services/data-loading.service';
+import { isAbortError } from '../../../../services/request-scheduler';
+import { CardCanvasRunner, isCardCanvasAnimation } from './card-canvas-animations';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
 
 @Component({
   selector: 'app-portfolio-card',
   standalone: true,
-  imports: [CommonModule, AnimatedCardDemoComponent, LoadingComponent],
+  imports: [CommonModule, AnimatedCardDemoComponent, LoadingComponent, EmbedFrameDirective],
   templateUrl: './portfolio-card.component.html',
   styleUrls: ['./portfolio-card.component.scss']
 })
@@ -21,14 +28,54 @@ export class PortfolioCardComponent implements OnInit, AfterViewInit, OnDestroy
     height: '300px',
     theme: 'glass'
   };
+  // Listing state (e.g. the active category) carried to the detail page for prev/next
+  @Input() detailQueryParams: Params = {};
+
+  // Elements only exist once the content has rendered, so they are set up when they appear
+  @ViewChild('videoElement') set videoElement(ref: ElementRef<HTMLVideoElement> | undefined) {
+    if (ref && ref.nativeElement !== this.video) {
+      this.setupVideo(ref.nativeElement);
+    } else if (!ref && this.video) {
+      this.teardownVideo();
+      this.video = null;
+    }
+  }
+  @ViewChild('canvasElement') set canvasElement(ref: ElementRef<HTMLCanvasElement> | undefined) {
+    if (ref?.nativeElement !== this.canvas) {
+      this.canvasRunner?.destroy();
+      this.canvasRunner = null;
+      this.canvas = ref?.nativeElement ?? null;
+      if (this.canvas) {
+        this.mountCanvas(this.canvas);
+      }
+    }
+  }
 
+  private router = inject(Router);
   private sanitizer = inject(DomSanitizer);
+  private document = inject(DOCUMENT);
+  private dataLoadingService = inject(DataLoadingService);
+  private imageLoad: AbortController | null = null;
+  private objectUrl: string | null = null;
+  private video: HTMLVideoElement | null = null;
+  private videoObserver: IntersectionObserver | null = null;
+  private videoVisible = false;
+  private canvas: HTMLCanvasElement | null = null;
+  private canvasRunner: CardCanvasRunner | null = null;
+  private reducedMotion: MediaQueryList | null = typeof window !== 'undefined' && window.matchMedia
+    ? window.matchMedia(REDUCED_MOTION_QUERY)
+    : null;
+  private onMotionPreferenceChange = () => this.updateVideoPlayback();
 
   // Signals for reactive content
   sanitizedContent = signal<SafeHtml | null>(null);
   hasError = signal<boolean>(false);
   isLoading = signal<boolean>(true);
   imageSrc = signal<string>('');
+  loadProgress = signal<number | null>(null);
+  // iframe backgrounds show a poster until clicked
+  iframeActive = signal<boolean>(false);
+  iframePoster = signal<string | null>(null);
 
   ngOnInit() {
     this.processContent();
@@ -39,7 +86,20 @@ export class PortfolioCardComponent implements OnInit, AfterViewInit, OnDestroy
   }
 
   ngOnDestroy() {
-    // No cleanup needed
+    this.imageLoad?.abort();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+    }
+    this.teardownVideo();
+    this.canvasRunner?.destroy();
+  }
+
+  /**
+   * Value from background.attributes, or the fallback when missing or of another type
+   */
+  attr<T extends string | number | boolean>(key: string, fallback: T): T {
+    const value = this.data.background.attributes?.[key];
+    return typeof value === typeof fallback ? value as T : fallback;
   }
 
   private processContent(): void {
@@ -49,21 +109,39 @@ export class PortfolioCardComponent implements OnInit, AfterViewInit, OnDestroy
       return;
     }
 
-    const { type, content } = this.data.background;
+    const { type, content, attributes } = this.data.background;
+    let loadingDeferred = false;
 
     try {
       switch (type) {
         case 'html':
           this.sanitizedContent.set(this.sanitizer.bypassSecurityTrustHtml(content));
           break;
-        case 'component':
-        case 'video':
         case 'image':
-          // Set image source directly for immediate loading
-          if (type === 'image') {
+          if (attributes?.['trackProgress'] && this.isLocalAsset(content)) {
+            // Large local media opts into a determinate loader via DataLoadingService
+            loadingDeferred = true;
+            this.loadImageWithProgress(content);
+          } else {
             this.imageSrc.set(content);
           }
           break;
+        case 'iframe':
+          if (!resolveEmbedUrl(content, this.document.baseURI)) {
+            this.hasError.set(true);
+          }
+          this.iframeActive.set(this.attr('autoActivate', false));
+          this.iframePoster.set(this.posterBackground(this.attr('poster', '')));
+          break;
+        case 'canvas':
+          if (!isCardCanvasAnimation(content)) {
+            this.hasError.set(true);
+          }
+          break;
+        case 'component':
+        case 'video':
+          // Rendered by the template; videos are wired up once their element exists
+          break;
         default:
         // unsupported content type
           this.hasError.set(true);
@@ -72,10 +150,111 @@ export class PortfolioCardComponent implements OnInit, AfterViewInit, OnDestroy
       // handle error silently
       this.hasError.set(true);
     } finally {
+      if (!loadingDeferred) {
+        this.isLoading.set(false);
+      }
+    }
+  }
+
+  private async loadImageWithProgress(path: string): Promise<void> {
+    this.imageLoad = new AbortController();
+    try {
+      const blob = await this.dataLoadingService.getBlob(path, {
+        signal: this.imageLoad.signal,
+        onProgress: event => this.loadProgress.set(event.total ? event.loaded / event.total : null)
+      });
+      this.objectUrl = URL.createObjectURL(blob);
+      this.imageSrc.set(this.objectUrl);
+    } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
+      // Let the browser try the asset directly
+      this.imageSrc.set(path);
+    } finally {
+      this.imageLoad = null;
       this.isLoading.set(false);
     }
   }
 
+  private isLocalAsset(url: string): boolean {
+    return !/^(https?:|data:|blob:|\/\/)/.test(url);
+  }
+
+  /**
+   * background-image for the iframe poster; the URL ends up in CSS, so only http(s) is used
+   */
+  private posterBackground(poster: string): string | null {
+    const url = poster.trim() ? resolveEmbedUrl(poster, this.document.baseURI) : null;
+    return url ? cssUrl(url) : null;
+  }
+
+  /**
+   * Muted autoplay while on screen; paused under reduced motion.
+   * attributes: poster, autoplay (true), loop (true), controls (false), muted (true), playbackRate
+   */
+  private setupVideo(video: HTMLVideoElement): void {
+    // The element is recreated when the loading/error state toggles; drop the old one's hooks first
+    this.teardownVideo();
+    this.video = video;
+    // Browsers only autoplay muted media; the property has to be set, not just the attribute
+    video.muted = this.attr('muted', true) || this.attr('autoplay', true);
+    video.defaultPlaybackRate = video.playbackRate = this.attr('playbackRate', 1);
+
+    this.reducedMotion?.addEventListener('change', this.onMotionPreferenceChange);
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.videoObserver = new IntersectionObserver(([entry]) => {
+        this.videoVisible = entry.isIntersecting;
+        this.updateVideoPlayback();
+      }, { threshold: 0.25 });
+      this.videoObserver.observe(video);
+    } else {
+      this.videoVisible = true;
+      this.updateVideoPlayback();
+    }
+  }
+
+  private teardownVideo(): void {
+    this.videoObserver?.disconnect();
+    this.videoObserver = null;
+    this.videoVisible = false;
+    this.reducedMotion?.removeEventListener('change', this.onMotionPreferenceChange);
+  }
+
+  private updateVideoPlayback(): void {
+    const video = this.video;
+    if (!video) return;
+
+    const shouldPlay = this.attr('autoplay', true) && this.videoVisible && !this.reducedMotion?.matches;
+    if (shouldPlay && video.paused) {
+      // Autoplay can still be refused (e.g. data saver); the poster stays up then
+      video.play().catch(() => undefined);
+    } else if (!shouldPlay && !video.paused) {
+      video.pause();
+    }
+  }
+
+  /**
+   * attributes: color, secondaryColor, speed, density
+   */
+  private mountCanvas(canvas: HTMLCanvasElement): void {
+    const styles = getComputedStyle(this.document.documentElement);
+    const themeColor = (name: string, fallback: string) => styles.getPropertyValue(name).trim() || fallback;
+
+    try {
+      this.canvasRunner = new CardCanvasRunner(canvas, this.data.background.content, {
+        color: this.attr('color', themeColor('--color-primary', '#4a90e2')),
+        secondaryColor: this.attr('secondaryColor', themeColor('--color-secondary', '#9d5cce')),
+        speed: this.attr('speed', 1),
+        density: this.attr('density', 1)
+      }, !!this.reducedMotion?.matches);
+      this.canvasRunner.init();
+    } catch {
+      // No 2D context available; the card keeps its plain front face
+      this.canvasRunner = null;
+    }
+  }
+
   onImageError(event: Event): void {
     // Mark as error when image fails to load
     this.hasError.set(true);
@@ -85,7 +264,19 @@ export class PortfolioCardComponent implements OnInit, AfterViewInit, OnDestroy
     this.isLoading.set(false);
   }
 
+  activateIframe(event: Event): void {
+    // Loads the embed instead of opening the detail page
+    event.stopPropagation();
+    this.iframeActive.set(true);
+  }
+
   onCardClick(): void {
+    this.router.navigate(['/projects', this.data.id], { queryParams: this.detailQueryParams });
+  }
+
+  onViewProjectClick(event: Event): void {
+    // The external link, not the detail page
+    event.stopPropagation();
     if (this.data.link) {
       if (this.data.target === '_blank') {
         window.open(this.data.link, '_blank');
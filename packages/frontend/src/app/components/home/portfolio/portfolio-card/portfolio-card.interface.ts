@@ -4,10 +4,18 @@ export interface PortfolioCardContent {
   attributes?: { [key: string]: any }; // Additional attributes for dynamic content
 }
 
+export interface PortfolioMediaItem {
+  type: 'image' | 'video' | 'iframe';
+  src: string;
+  caption?: string;
+}
+
 export interface PortfolioCardData {
   id: string;
   title: string;
   description: string;
+  longDescription?: string; // Shown on the project detail page, falls back to description
+  gallery?: PortfolioMediaItem[]; // Detail page media, falls back to an image/video background
   background: PortfolioCardContent;
   link?: string;
   target?: string;
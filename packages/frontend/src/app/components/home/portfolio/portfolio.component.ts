@@ -1,8 +1,23 @@
-import { Component, signal, OnInit, inject } from '@angular/core';
+import { Component, signal, computed, OnInit, inject, effect } from '@angular/core';
+import { Location } from '@angular/common';
+import { ActivatedRoute, Params, Router } from '@angular/router';
 import { PortfolioCardComponent } from './portfolio-card/portfolio-card.component';
 import { LoadingComponent } from '../../shared/loading/loading.component';
 import { PortfolioService } from '../../../services/portfolio.service';
-import { PortfolioCardData } from './portfolio-card/portfolio-card.interface';
+import {
+  EMPTY_PORTFOLIO_QUERY,
+  PORTFOLIO_SORT_OPTIONS,
+  PortfolioFacetKey,
+  PortfolioQuery,
+  PortfolioSort,
+  isEmptyQuery,
+  queryFromParams,
+  queryToParams,
+  toggleFacetValue
+} from '../../../services/portfolio-search';
+
+// Tech facet values shown before "Show all"
+const TECH_PREVIEW_COUNT = 8;
 
 @Component({
   selector: 'app-portfolio',
@@ -13,55 +28,135 @@ import { PortfolioCardData } from './portfolio-card/portfolio-card.interface';
 })
 export class PortfolioComponent implements OnInit {
   private portfolioService = inject(PortfolioService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private location = inject(Location);
 
   // Modern Angular Signals for reactive data
-  portfolioItems = signal<PortfolioCardData[]>([]);
   categories = signal<{id: string, label: string, isDefault?: boolean}[]>([]);
   sectionHeader = signal<{title: string, description: string} | null>(null);
-  activeFilter = signal<string>('all');
-  filteredItems = signal<PortfolioCardData[]>([]);
-  
+
+  // Search text and facet selections, mirrored to the URL query params
+  query = signal<PortfolioQuery>(EMPTY_PORTFOLIO_QUERY);
+  filteredItems = computed(() => this.portfolioService.queryProjects(this.query()));
+  facets = computed(() => this.portfolioService.getFacets(this.query()));
+  totalCount = computed(() => this.portfolioService.portfolioData()?.projects.length ?? 0);
+  allCategory = computed(() => this.categories().find(category => category.id === 'all') ?? null);
+  // Count behind the "All" category chip: every category, other facets still applied
+  allCategoriesCount = computed(() => this.portfolioService.queryProjects({ ...this.query(), categories: [] }).length);
+  hasActiveFilters = computed(() => !isEmptyQuery(this.query()));
+  showAllTech = signal(false);
+  visibleTech = computed(() => {
+    const tech = this.facets()?.tech ?? [];
+    return this.showAllTech() ? tech : tech.filter((option, index) => index < TECH_PREVIEW_COUNT || option.selected);
+  });
+  hiddenTechCount = computed(() => (this.facets()?.tech.length ?? 0) - this.visibleTech().length);
+
+  // Sorting: null follows metadata.sortBy (or relevance while searching)
+  readonly sortOptions = PORTFOLIO_SORT_OPTIONS;
+  defaultSortLabel = computed(() => {
+    if (this.query().search.trim()) {
+      return 'Best match';
+    }
+    const sortBy = this.portfolioService.settings().sortBy;
+    return `Default (${PORTFOLIO_SORT_OPTIONS.find(option => option.value === sortBy)?.label})`;
+  });
+
+  // metadata.animationType drives the grid enter/leave transitions
+  enterAnimation = computed(() => this.animationClasses('enter'));
+  leaveAnimation = computed(() => this.animationClasses('leave'));
+
+  // Lets the detail page page through the same filtered list
+  detailQueryParams = computed<Params>(() => {
+    const params = queryToParams(this.query(), this.portfolioService.queryDefaults());
+    return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== null));
+  });
+
   // Loading and error states
   isLoading = signal<boolean>(true);
   error = signal<string | null>(null);
 
+  private initialized = false;
+
+  constructor() {
+    // Re-apply data whenever the service publishes a background refresh
+    effect(() => {
+      const data = this.portfolioService.portfolioData();
+      if (this.initialized && data) {
+        this.categories.set(data.categories || []);
+        this.sectionHeader.set(data.sectionHeader);
+      }
+    });
+
+    // Keep the URL shareable without adding history entries or triggering router scrolling
+    effect(() => {
+      const params = queryToParams(this.query(), this.portfolioService.queryDefaults());
+      if (!this.initialized) {
+        return;
+      }
+      const tree = this.router.createUrlTree([], {
+        relativeTo: this.route,
+        queryParams: params,
+        queryParamsHandling: 'merge'
+      });
+      this.location.replaceState(this.router.serializeUrl(tree));
+    });
+  }
+
   async ngOnInit() {
     // Load portfolio data from JSON
     await this.portfolioService.loadPortfolioData();
-    
+
+    // A shared link restores its filtered view; otherwise metadata.defaultFilter applies
+    this.query.set(queryFromParams(this.route.snapshot.queryParams, this.portfolioService.queryDefaults()));
+
     // Subscribe to service signals
     const data = this.portfolioService.portfolioData();
     const loading = this.portfolioService.isLoading();
     const error = this.portfolioService.error();
-    
+
     this.isLoading.set(loading);
     this.error.set(error);
-    
+
     if (data) {
-      this.portfolioItems.set(data.projects);
       this.categories.set(data.categories || []);
       this.sectionHeader.set(data.sectionHeader);
-      
-      // Set default filter
-      const defaultCategory = data.categories?.find(cat => cat.isDefault);
-      if (defaultCategory) {
-        this.activeFilter.set(defaultCategory.id);
-      }
     }
-    
-    // Initialize filtered items
-    this.updateFilteredItems();
+
+    this.initialized = true;
   }
 
   filterItems(category: string): void {
-    this.activeFilter.set(category);
-    this.updateFilteredItems();
+    // 'all' clears the category facet; any other category toggles
+    this.query.update(query => category === 'all'
+      ? { ...query, categories: [] }
+      : toggleFacetValue(query, 'categories', category));
+  }
+
+  toggleFacet(key: PortfolioFacetKey, value: string): void {
+    this.query.update(query => toggleFacetValue(query, key, value));
+  }
+
+  toggleFeatured(): void {
+    this.query.update(query => ({ ...query, featured: !query.featured }));
+  }
+
+  setSearch(search: string): void {
+    this.query.update(query => ({ ...query, search }));
+  }
+
+  setSort(sort: string): void {
+    this.query.update(query => ({ ...query, sort: (sort || null) as PortfolioSort | null }));
+  }
+
+  clearFilters(): void {
+    // Keeps the chosen sort order
+    this.query.update(query => ({ ...EMPTY_PORTFOLIO_QUERY, sort: query.sort }));
   }
 
-  private updateFilteredItems(): void {
-    const filter = this.activeFilter();
-    const items = this.portfolioService.getProjectsByCategory(filter);
-    this.filteredItems.set(items);
+  private animationClasses(phase: 'enter' | 'leave'): string[] {
+    const animation = this.portfolioService.settings().animationType;
+    return animation === 'none' ? [] : [`card-${phase}`, `card-${phase}-${animation}`];
   }
 
   onImageError(event: Event): void {
@@ -0,0 +1,78 @@
+import { Component, DestroyRef, OnInit, computed, effect, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { Title } from '@angular/platform-browser';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { map } from 'rxjs';
+import { PortfolioService } from '../../services/portfolio.service';
+import { isEmptyQuery, queryFromParams } from '../../services/portfolio-search';
+import { PortfolioMediaItem } from '../home/portfolio/portfolio-card/portfolio-card.interface';
+import { LoadingComponent } from '../shared/loading/loading.component';
+import { AnimatedBackgroundComponent } from '../shared/animated-background/animated-background.component';
+import { ThemeSwitcherComponent } from '../shared/theme-switcher/theme-switcher.component';
+import { EmbedFrameDirective, resolveEmbedUrl } from '../shared/embed-frame/embed-frame.directive';
+
+@Component({
+  selector: 'app-project-detail-main',
+  standalone: true,
+  imports: [RouterLink, LoadingComponent, AnimatedBackgroundComponent, ThemeSwitcherComponent, EmbedFrameDirective],
+  templateUrl: './main.component.html',
+  styleUrl: './main.component.scss'
+})
+export class ProjectDetailMainComponent implements OnInit {
+  private route = inject(ActivatedRoute);
+  private portfolioService = inject(PortfolioService);
+  private document = inject(DOCUMENT);
+  private title = inject(Title);
+
+  // Route state: /projects/:id?q=...&category=...&tech=...
+  projectId = toSignal(this.route.paramMap.pipe(map(params => params.get('id') ?? '')), { initialValue: '' });
+  // Carried over to prev/next and back links so the filter survives navigation
+  listQueryParams = toSignal(this.route.queryParams, { initialValue: {} });
+  listQuery = computed(() => queryFromParams(this.listQueryParams(), this.portfolioService.queryDefaults()));
+
+  isLoading = computed(() => !this.portfolioService.portfolioData() && this.portfolioService.isLoading());
+  error = computed(() => this.portfolioService.portfolioData() ? null : this.portfolioService.error());
+
+  project = computed(() => this.portfolioService.getProjectById(this.projectId()));
+  notFound = computed(() => !!this.portfolioService.portfolioData() && !this.project());
+  neighbours = computed(() => this.portfolioService.getAdjacentProjects(this.projectId(), this.listQuery()));
+  // Only filters the visitor chose, not the default category
+  isFiltered = computed(() => !isEmptyQuery(queryFromParams(this.listQueryParams())));
+
+  gallery = computed<PortfolioMediaItem[]>(() => {
+    const project = this.project();
+    if (!project) return [];
+
+    const items: PortfolioMediaItem[] = project.gallery?.length
+      ? project.gallery
+      : (project.background.type === 'image' || project.background.type === 'video')
+        ? [{ type: project.background.type, src: project.background.content, caption: project.title }]
+        : [];
+
+    // portfolio.json can come from an external override, so embeds are never trusted as is:
+    // only http(s) pages load, in the same sandbox as card iframes
+    return items.filter(item => item.type !== 'iframe' || resolveEmbedUrl(item.src, this.document.baseURI));
+  });
+
+  constructor() {
+    const defaultTitle = this.title.getTitle();
+    effect(() => {
+      const project = this.project();
+      this.title.setTitle(project ? `${project.title} | ${defaultTitle}` : defaultTitle);
+    });
+    inject(DestroyRef).onDestroy(() => this.title.setTitle(defaultTitle));
+  }
+
+  async ngOnInit() {
+    await this.portfolioService.loadPortfolioData();
+  }
+
+  retry(): void {
+    this.portfolioService.resource.reload().catch(() => undefined);
+  }
+
+  paragraphs(text: string): string[] {
+    return text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  }
+}
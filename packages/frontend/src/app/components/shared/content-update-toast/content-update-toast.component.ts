@@ -0,0 +1,119 @@
+import { Component, DestroyRef, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { DataLoadingService } from '../../../services/data-loading.service';
+import { EnvironmentService } from '../../../services/environment.service';
+
+/**
+ * Human-readable names for the data files behind each section
+ */
+const CONTENT_LABELS: Record<string, string> = {
+  '/assets/data/portfolio.json': 'Portfolio',
+  '/assets/data/skills.json': 'Skills',
+  '/assets/data/about-content.json': 'About',
+  '/assets/data/personal-info.json': 'Profile'
+};
+
+const TOAST_DURATION_MS = 6000;
+
+@Component({
+  selector: 'app-content-update-toast',
+  standalone: true,
+  template: `
+    @if (message(); as text) {
+      <div class="content-update-toast" role="status" aria-live="polite">
+        <i class="fa-solid fa-arrows-rotate" aria-hidden="true"></i>
+        <span class="toast-text">{{ text }}</span>
+        <button type="button" class="toast-dismiss" (click)="dismiss()" aria-label="Dismiss notification">
+          <i class="fa-solid fa-xmark" aria-hidden="true"></i>
+        </button>
+      </div>
+    }
+  `,
+  styles: [`
+    .content-update-toast {
+      position: fixed;
+      left: 50%;
+      bottom: 2rem;
+      transform: translateX(-50%);
+      z-index: 1100;
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      padding: 0.75rem 1rem;
+      border-radius: 12px;
+      border: 1px solid var(--color-border-accent);
+      background: var(--color-bg-glass);
+      backdrop-filter: blur(6px);
+      box-shadow: 0 4px 20px var(--shadow-medium);
+      color: var(--color-text-primary);
+      animation: toast-in 0.3s ease-out;
+    }
+
+    .content-update-toast .fa-arrows-rotate {
+      color: var(--color-primary);
+    }
+
+    .toast-dismiss {
+      background: none;
+      border: none;
+      color: var(--color-text-secondary);
+      cursor: pointer;
+      padding: 0.25rem;
+    }
+
+    .toast-dismiss:hover {
+      color: var(--color-text-primary);
+    }
+
+    @keyframes toast-in {
+      from { opacity: 0; transform: translate(-50%, 1rem); }
+      to { opacity: 1; transform: translate(-50%, 0); }
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .content-update-toast {
+        animation: none;
+      }
+    }
+  `]
+})
+export class ContentUpdateToastComponent {
+  private dataLoadingService = inject(DataLoadingService);
+  private environment = inject(EnvironmentService);
+  private destroyRef = inject(DestroyRef);
+  private hideTimer: ReturnType<typeof setTimeout> | null = null;
+
+  message = signal<string | null>(null);
+
+  constructor() {
+    this.dataLoadingService.contentChanged$
+      .pipe(takeUntilDestroyed())
+      .subscribe(event => {
+        if (!this.environment.isEnabled('contentUpdateToast')) {
+          return;
+        }
+        const label = CONTENT_LABELS[event.path];
+        this.show(label ? `${label} content was updated` : 'Content was updated');
+      });
+
+    this.destroyRef.onDestroy(() => this.clearTimer());
+  }
+
+  dismiss(): void {
+    this.clearTimer();
+    this.message.set(null);
+  }
+
+  private show(text: string): void {
+    this.clearTimer();
+    this.message.set(text);
+    this.hideTimer = setTimeout(() => this.message.set(null), TOAST_DURATION_MS);
+  }
+
+  private clearTimer(): void {
+    if (this.hideTimer) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+  }
+}
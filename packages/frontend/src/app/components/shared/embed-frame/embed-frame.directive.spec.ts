@@ -0,0 +1,30 @@
+import { cssUrl, embedSandbox, resolveEmbedUrl } from './embed-frame.directive';
+
+const BASE = 'https://portfolio.example.com/projects/orbit';
+
+describe('embed frame helpers', () => {
+  it('resolves http(s) URLs against the page and rejects other schemes', () => {
+    expect(resolveEmbedUrl('/demo/index.html', BASE)?.href).toBe('https://portfolio.example.com/demo/index.html');
+    expect(resolveEmbedUrl('http://demo.example.org/', BASE)?.href).toBe('http://demo.example.org/');
+    for (const src of ['javascript:alert(1)', 'data:text/html,<b>hi</b>', 'blob:https://portfolio.example.com/id', 'https://[']) {
+      expect(resolveEmbedUrl(src, BASE)).withContext(src).toBeNull();
+    }
+  });
+
+  it('quotes CSS urls so a poster cannot close the string or the declaration', () => {
+    expect(cssUrl(new URL('https://cdn.example.com/poster.png'))).toBe('url("https://cdn.example.com/poster.png")');
+
+    const hostile = resolveEmbedUrl('https://cdn.example.com/a.png");background:url(https://evil.example/x', BASE);
+    expect(cssUrl(hostile!)).toBe('url("https://cdn.example.com/a.png%22);background:url(https://evil.example/x")');
+
+    // URL.href already percent-encodes quotes; the escaping covers what it leaves alone
+    const withBackslash = { href: 'https://cdn.example.com/a"b\\c\nd' } as URL;
+    expect(cssUrl(withBackslash)).toBe('url("https://cdn.example.com/a\\22 b\\5c c\\a d")');
+  });
+
+  it('keeps only allowlisted sandbox tokens and never grants same-origin to same-origin pages', () => {
+    expect(embedSandbox('allow-scripts allow-top-navigation allow-same-origin', true)).toEqual(['allow-scripts', 'allow-same-origin']);
+    expect(embedSandbox('allow-scripts allow-same-origin', false)).toEqual(['allow-scripts']);
+    expect(embedSandbox('', false)).toEqual(['allow-scripts', 'allow-popups', 'allow-presentation']);
+  });
+});
@@ -0,0 +1,107 @@
+import { Directive, ElementRef, Input, OnChanges, OnDestroy, Renderer2, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+
+// Sandbox tokens an embed may ask for; top-level navigation is never granted
+const SANDBOX_TOKENS = new Set([
+  'allow-scripts',
+  'allow-same-origin',
+  'allow-forms',
+  'allow-popups',
+  'allow-popups-to-escape-sandbox',
+  'allow-presentation',
+  'allow-pointer-lock',
+  'allow-modals',
+  'allow-downloads',
+  'allow-orientation-lock'
+]);
+
+const DEFAULT_SANDBOX = ['allow-scripts', 'allow-popups', 'allow-presentation'];
+
+/**
+ * Absolute http(s) URL for an embed, or null for anything else (javascript:, data:, malformed...)
+ */
+export function resolveEmbedUrl(src: string, baseURI: string): URL | null {
+  try {
+    const url = new URL(src, baseURI);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Quoted CSS url() for a resolved URL, escaping anything that could end the string
+ */
+export function cssUrl(url: URL): string {
+  const escaped = url.href.replace(/["\\\n\r\f]/g, char => `\\${char.charCodeAt(0).toString(16)} `);
+  return `url("${escaped}")`;
+}
+
+/**
+ * Sandbox tokens for an embed: the requested ones that are allowlisted, or a safe default.
+ * Same-origin pages get scripts but never their origin, so they can't lift the sandbox.
+ */
+export function embedSandbox(requested: string, crossOrigin: boolean): string[] {
+  const tokens = requested.split(/\s+/).filter(token => SANDBOX_TOKENS.has(token));
+  return tokens.length
+    ? tokens.filter(token => crossOrigin || token !== 'allow-same-origin')
+    : [...DEFAULT_SANDBOX, ...(crossOrigin ? ['allow-same-origin'] : [])];
+}
+
+/**
+ * Renders a sandboxed, lazy iframe inside the host element.
+ * Built imperatively: Angular forbids binding sandbox/allow, and they have to be set before src.
+ * attributes: sandbox (tokens), allow, title, referrerPolicy
+ */
+@Directive({
+  selector: '[appEmbedFrame]',
+  standalone: true
+})
+export class EmbedFrameDirective implements OnChanges, OnDestroy {
+  @Input({ required: true, alias: 'appEmbedFrame' }) src!: string;
+  @Input() embedTitle = '';
+  @Input() embedAttributes?: { [key: string]: any };
+
+  private host = inject<ElementRef<HTMLElement>>(ElementRef);
+  private renderer = inject(Renderer2);
+  private document = inject(DOCUMENT);
+  private iframe: HTMLIFrameElement | null = null;
+
+  ngOnChanges(): void {
+    this.unmount();
+    this.mount();
+  }
+
+  ngOnDestroy(): void {
+    this.unmount();
+  }
+
+  private mount(): void {
+    const url = resolveEmbedUrl(this.src, this.document.baseURI);
+    if (!url) return;
+
+    const crossOrigin = url.origin !== new URL(this.document.baseURI).origin;
+    const iframe: HTMLIFrameElement = this.renderer.createElement('iframe');
+    this.renderer.setAttribute(iframe, 'sandbox', embedSandbox(this.option('sandbox', ''), crossOrigin).join(' '));
+    this.renderer.setAttribute(iframe, 'allow', this.option('allow', 'fullscreen; autoplay; encrypted-media'));
+    this.renderer.setAttribute(iframe, 'referrerpolicy', this.option('referrerPolicy', 'strict-origin-when-cross-origin'));
+    this.renderer.setAttribute(iframe, 'loading', 'lazy');
+    this.renderer.setAttribute(iframe, 'title', this.option('title', this.embedTitle));
+    this.renderer.addClass(iframe, 'embed-frame');
+    this.renderer.setAttribute(iframe, 'src', url.href);
+    this.renderer.appendChild(this.host.nativeElement, iframe);
+    this.iframe = iframe;
+  }
+
+  private unmount(): void {
+    if (this.iframe) {
+      this.renderer.removeChild(this.host.nativeElement, this.iframe);
+      this.iframe = null;
+    }
+  }
+
+  private option(key: string, fallback: string): string {
+    const value = this.embedAttributes?.[key];
+    return typeof value === 'string' ? value : fallback;
+  }
+}
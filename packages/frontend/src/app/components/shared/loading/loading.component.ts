@@ -107,6 +107,17 @@ export type LoadingSize = 'small' | 'medium' | 'large';
             </span>
           </div>
           
+          <!-- Determinate Progress (when the byte total is known) -->
+          <div class="loading-progress"
+               *ngIf="progress !== null && !error"
+               role="progressbar"
+               aria-valuemin="0"
+               aria-valuemax="100"
+               [attr.aria-valuenow]="getProgressPercent()">
+            <div class="loading-progress-fill" [style.width.%]="getProgressPercent()"></div>
+            <span class="loading-progress-label">{{ getProgressPercent() }}%</span>
+          </div>
+          
           <!-- Developer Signature -->
           <div class="dev-signature" *ngIf="currentPhase > 2 && !error">
             <span class="signature-text">// {{ getCurrentSignature() }}</span>
@@ -553,6 +564,33 @@ export type LoadingSize = 'small' | 'medium' | 'large';
       font-weight: 400;
     }
     
+    .loading-progress {
+      position: relative;
+      width: 100%;
+      max-width: 220px;
+      height: 6px;
+      margin: 0.75rem auto 0;
+      border-radius: 3px;
+      background: hsla(var(--primary-hue), var(--primary-sat), var(--primary-light), 0.15);
+      overflow: visible;
+    }
+    
+    .loading-progress-fill {
+      height: 100%;
+      border-radius: inherit;
+      background: var(--consciousness-color);
+      box-shadow: 0 0 10px hsla(var(--primary-hue), var(--primary-sat), var(--primary-light), 0.5);
+      transition: width 0.2s ease-out;
+    }
+    
+    .loading-progress-label {
+      display: block;
+      margin-top: 0.4rem;
+      font-size: 0.8rem;
+      color: var(--consciousness-color);
+      font-variant-numeric: tabular-nums;
+    }
+    
     .message-char {
       display: inline-block;
       color: var(--consciousness-color);
@@ -821,6 +859,8 @@ export class LoadingComponent implements OnInit, OnDestroy {
   @Input() thresholdMs = 400;
   @Input() timeoutMs = 15000;
   @Input() showEasterEggs = true;
+  /** Download progress from 0 to 1; null keeps the loader indeterminate */
+  @Input() progress: number | null = null;
 
   @Output() retry = new EventEmitter<void>();
   @Output() timedOut = new EventEmitter<void>();
@@ -1077,6 +1117,10 @@ export class LoadingComponent implements OnInit, OnDestroy {
     return this.glitchCharacters.has(index);
   }
 
+  getProgressPercent(): number {
+    return Math.round(Math.min(Math.max(this.progress ?? 0, 0), 1) * 100);
+  }
+
   getScale(): number {
     switch (this.size) {
       case 'small': return 0.6;
@@ -0,0 +1,98 @@
+import { Component, DestroyRef, computed, effect, inject, signal } from '@angular/core';
+import { ConnectivityService } from '../../../services/connectivity.service';
+import { DataLoadingService } from '../../../services/data-loading.service';
+
+const AGE_REFRESH_INTERVAL_MS = 60_000;
+
+@Component({
+  selector: 'app-offline-banner',
+  standalone: true,
+  template: `
+    @if (!connectivity.online()) {
+      <div class="offline-banner" role="status" aria-live="polite">
+        <i class="fa-solid fa-plug-circle-xmark" aria-hidden="true"></i>
+        <span class="banner-text">{{ message() }}</span>
+      </div>
+    }
+  `,
+  styles: [`
+    .offline-banner {
+      position: fixed;
+      top: 0;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 1100;
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      margin-top: 0.75rem;
+      padding: 0.5rem 1rem;
+      border-radius: 12px;
+      border: 1px solid var(--color-border-accent);
+      background: var(--color-bg-glass);
+      backdrop-filter: blur(6px);
+      box-shadow: 0 4px 20px var(--shadow-medium);
+      color: var(--color-text-primary);
+      font-size: 0.9rem;
+    }
+
+    .offline-banner .fa-plug-circle-xmark {
+      color: var(--color-warning);
+    }
+  `]
+})
+export class OfflineBannerComponent {
+  readonly connectivity = inject(ConnectivityService);
+  private dataLoadingService = inject(DataLoadingService);
+  private destroyRef = inject(DestroyRef);
+
+  /** Bumped periodically while offline so the age label stays current */
+  private now = signal(Date.now());
+  private contentTimestamp = signal<number | null>(null);
+  private ageTimer: ReturnType<typeof setInterval> | null = null;
+
+  readonly message = computed(() => {
+    const fetchedAt = this.contentTimestamp();
+    if (fetchedAt === null) {
+      return 'You are offline. Some content may be unavailable.';
+    }
+    return `You are offline. Showing content saved ${this.formatAge(this.now() - fetchedAt)}.`;
+  });
+
+  constructor() {
+    effect(() => {
+      if (this.connectivity.online()) {
+        this.stopAgeTimer();
+      } else {
+        this.refreshAge();
+        this.ageTimer ??= setInterval(() => this.refreshAge(), AGE_REFRESH_INTERVAL_MS);
+      }
+    });
+
+    this.destroyRef.onDestroy(() => this.stopAgeTimer());
+  }
+
+  private refreshAge(): void {
+    this.contentTimestamp.set(this.dataLoadingService.getOldestContentTimestamp());
+    this.now.set(Date.now());
+  }
+
+  private stopAgeTimer(): void {
+    if (this.ageTimer) {
+      clearInterval(this.ageTimer);
+      this.ageTimer = null;
+    }
+  }
+
+  private formatAge(ms: number): string {
+    const minutes = Math.floor(ms / 60_000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+
+    const days = Math.floor(hours / 24);
+    return `${days} day${days === 1 ? '' : 's'} ago`;
+  }
+}
@@ -0,0 +1,102 @@
+import { Component, computed, inject } from '@angular/core';
+import { AppUpdateService } from '../../../services/app-update.service';
+
+@Component({
+  selector: 'app-update-prompt',
+  standalone: true,
+  template: `
+    @if (visible()) {
+      <div class="update-prompt" role="alertdialog" aria-live="assertive" aria-labelledby="update-prompt-text">
+        <i class="fa-solid fa-circle-up" aria-hidden="true"></i>
+        <span id="update-prompt-text" class="prompt-text">
+          @if (updates.unrecoverableReason()) {
+            This version of the site can no longer be loaded. Reload to continue.
+          } @else {
+            A new version is available.
+          }
+        </span>
+        <div class="prompt-actions">
+          <button type="button" class="prompt-button primary"
+                  [disabled]="updates.isActivating()"
+                  (click)="updates.activateAndReload()">
+            {{ updates.isActivating() ? 'Reloading...' : 'Reload' }}
+          </button>
+          @if (!updates.unrecoverableReason()) {
+            <button type="button" class="prompt-button" (click)="updates.dismiss()">Later</button>
+          }
+        </div>
+      </div>
+    }
+  `,
+  styles: [`
+    .update-prompt {
+      position: fixed;
+      right: 1.5rem;
+      bottom: 1.5rem;
+      z-index: 1200;
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      max-width: min(420px, calc(100vw - 3rem));
+      padding: 0.75rem 1rem;
+      border-radius: 12px;
+      border: 1px solid var(--color-border-accent);
+      background: var(--color-bg-glass);
+      backdrop-filter: blur(6px);
+      box-shadow: 0 4px 20px var(--shadow-medium);
+      color: var(--color-text-primary);
+      animation: prompt-in 0.3s ease-out;
+    }
+
+    .update-prompt .fa-circle-up {
+      color: var(--color-primary);
+    }
+
+    .prompt-actions {
+      display: flex;
+      gap: 0.5rem;
+      margin-left: auto;
+    }
+
+    .prompt-button {
+      padding: 0.35rem 0.8rem;
+      border-radius: 8px;
+      border: 1px solid var(--color-border-accent);
+      background: none;
+      color: var(--color-text-secondary);
+      cursor: pointer;
+      white-space: nowrap;
+    }
+
+    .prompt-button:hover {
+      color: var(--color-text-primary);
+    }
+
+    .prompt-button.primary {
+      border-color: var(--color-primary);
+      background: var(--color-primary);
+      color: var(--color-bg-primary, #fff);
+    }
+
+    .prompt-button:disabled {
+      opacity: 0.6;
+      cursor: progress;
+    }
+
+    @keyframes prompt-in {
+      from { opacity: 0; transform: translateY(1rem); }
+      to { opacity: 1; transform: translateY(0); }
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .update-prompt {
+        animation: none;
+      }
+    }
+  `]
+})
+export class UpdatePromptComponent {
+  readonly updates = inject(AppUpdateService);
+
+  readonly visible = computed(() => !!this.updates.availableVersion() || !!this.updates.unrecoverableReason());
+}
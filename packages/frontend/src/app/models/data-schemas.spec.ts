@@ -0,0 +1,119 @@
+import {
+  CONTENT_API_ROUTES,
+  DATA_VALIDATORS,
+  ValidationIssue,
+  aboutContentValidator,
+  personalInfoValidator,
+  portfolioResponseValidator,
+  skillsDataValidator
+} from './data-schemas';
+import fixtures from './data-schemas.fixtures.json';
+
+/**
+ * Shared with the backend's content-schemas tests, so both validators must report the same issues
+ */
+interface SchemaFixture {
+  name: string;
+  value: unknown;
+  issues: ValidationIssue[];
+}
+
+const portfolio = (project: Record<string, unknown> = {}) => ({
+  sectionHeader: { title: 'Work', description: 'Selected projects' },
+  projects: [{ id: 'orbit', title: 'Orbit', description: 'Skill orbit', category: 'web', ...project }]
+});
+
+const skills = (metadata: Record<string, unknown> = {}) => ({
+  sectionHeader: { title: 'Skills', description: 'Toolkit', casualPitch: 'Hi', toolkitNote: 'Note' },
+  skills: [{ label: 'Frontend', skills: 'Angular, TypeScript' }],
+  metadata
+});
+
+describe('data schemas', () => {
+  it('accepts a minimal portfolio, with optional fields missing or null', () => {
+    expect(portfolioResponseValidator.validate(portfolio())).toEqual([]);
+    expect(portfolioResponseValidator.is(portfolio({ link: null, metadata: { tech: ['Angular'] } }))).toBeTrue();
+  });
+
+  it('reports the path and the actual type of every failing field', () => {
+    expect(portfolioResponseValidator.validate(portfolio({ title: 7, category: undefined }))).toEqual([
+      { path: 'projects[0].title', message: 'expected string, got number' },
+      { path: 'projects[0].category', message: 'expected string, got undefined' }
+    ]);
+    expect(portfolioResponseValidator.validate({ sectionHeader: null, projects: {} })).toEqual([
+      { path: 'sectionHeader', message: 'expected object, got null' },
+      { path: 'projects', message: 'expected array, got object' }
+    ]);
+  });
+
+  it('rejects a payload that is not an object at all', () => {
+    for (const value of [null, [], 'portfolio', 42]) {
+      expect(portfolioResponseValidator.is(value)).toBeFalse();
+    }
+    expect(skillsDataValidator.validate([])).toEqual([{ path: '(root)', message: 'expected object, got array' }]);
+  });
+
+  it('accepts only the listed values of an enumeration', () => {
+    expect(portfolioResponseValidator.validate(portfolio({ metadata: { status: 'paused' } }))).toEqual([
+      { path: 'projects[0].metadata.status', message: 'expected one of completed | in-progress | archived, got "paused"' }
+    ]);
+    expect(portfolioResponseValidator.validate(portfolio({ background: { type: 'gif', content: 'x.gif' } }))).toEqual([
+      { path: 'projects[0].background.type', message: 'expected one of image | video | iframe | html | canvas | component, got "gif"' }
+    ]);
+  });
+
+  it('validates gallery items of the project detail page', () => {
+    const gallery = [{ type: 'image', src: '/a.png', caption: 'A' }, { type: 'iframe', src: 'https://example.com' }];
+    expect(portfolioResponseValidator.validate(portfolio({ longDescription: 'More', gallery }))).toEqual([]);
+    expect(portfolioResponseValidator.validate(portfolio({ gallery: [{ type: 'html', src: 1 }] }))).toEqual([
+      { path: 'projects[0].gallery[0].type', message: 'expected one of image | video | iframe, got "html"' },
+      { path: 'projects[0].gallery[0].src', message: 'expected string, got number' }
+    ]);
+  });
+
+  it('checks nested skills metadata, including the orbit config', () => {
+    expect(skillsDataValidator.validate(skills({ itemsPerRow: { desktop: 4, mobile: 2 } }))).toEqual([]);
+    expect(skillsDataValidator.validate(skills({
+      orbitConfig: {
+        maxOrbits: 3,
+        size: { startSize: 100, endSize: '400', minSize: 50 },
+        animation: { baseDuration: 20, durationRange: 10 },
+        direction: 'clockwise'
+      }
+    }))).toEqual([{ path: 'metadata.orbitConfig.size.endSize', message: 'expected number, got string' }]);
+    expect(skillsDataValidator.validate({ ...skills(), metadata: undefined })).toEqual([
+      { path: 'metadata', message: 'expected object, got undefined' }
+    ]);
+  });
+
+  it('requires every field of about content and personal info', () => {
+    expect(aboutContentValidator.validate({
+      sectionHeader: { title: 'About', description: 'Journey' },
+      contentBlocks: [{
+        id: 'start',
+        timeline: { title: 'Start', date: '2019', icon: 'rocket' },
+        image: { src: '/a.png' },
+        content: { type: 'text', text: 'Hello' }
+      }]
+    })).toEqual([{ path: 'contentBlocks[0].image.alt', message: 'expected string, got undefined' }]);
+
+    expect(personalInfoValidator.validate({}).map(issue => issue.path)).toEqual([
+      'name', 'title', 'profile', 'career', 'location', 'institution', 'stats', 'contact', 'bio'
+    ]);
+  });
+
+  it('registers a validator and a content API route for the same data files', () => {
+    expect(Object.keys(CONTENT_API_ROUTES).sort()).toEqual(Object.keys(DATA_VALIDATORS).sort());
+  });
+
+  it('reports the same issues as the backend content schemas on the shared fixtures', () => {
+    const cases = fixtures as Record<string, SchemaFixture[]>;
+    expect(Object.keys(cases).sort()).toEqual(Object.values(CONTENT_API_ROUTES).sort());
+
+    for (const [localUrl, route] of Object.entries(CONTENT_API_ROUTES)) {
+      for (const { name, value, issues } of cases[route]) {
+        expect(DATA_VALIDATORS[localUrl].validate(value)).withContext(`${route}: ${name}`).toEqual(issues);
+      }
+    }
+  });
+});
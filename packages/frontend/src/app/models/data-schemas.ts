@@ -0,0 +1,249 @@
+import type { PortfolioResponse } from '../services/portfolio.service';
+import type { PortfolioCardContent, PortfolioCardData, PortfolioMediaItem } from '../components/home/portfolio/portfolio-card/portfolio-card.interface';
+import type { SkillsData, SkillContext, SectionHeader, SkillsMetadata, OrbitConfig, CvMetadata } from './skills-definitions';
+import type { IAboutContent, IContentBlock, ITimelineData } from '../components/home/about/journey-timeline/about.types';
+import type { IPersonalInfo, ISocialPlatform } from '../components/home/about/services/personal-info.service';
+
+// ==========================================
+// VALIDATION PRIMITIVES
+// ==========================================
+
+/**
+ * A single failing field, e.g. { path: 'projects[2].title', message: 'expected string, got undefined' }
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Typed validator for a data file payload
+ */
+export interface DataValidator<T> {
+  /** Returns every failing field; an empty list means the value is a valid T */
+  validate(value: unknown): ValidationIssue[];
+  /** Type guard form of validate() */
+  is(value: unknown): value is T;
+}
+
+type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+/**
+ * One check per property of T, so schemas stay in sync with their interfaces
+ */
+type Shape<T> = { [K in keyof T]-?: Check };
+
+const joinPath = (parent: string, key: string | number): string =>
+  typeof key === 'number' ? `${parent}[${key}]` : (parent ? `${parent}.${key}` : key);
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const typeCheck = (expected: 'string' | 'number' | 'boolean'): Check => (value, path, issues) => {
+  if (typeof value !== expected) {
+    issues.push({ path, message: `expected ${expected}, got ${describe(value)}` });
+  }
+};
+
+const str = typeCheck('string');
+const num = typeCheck('number');
+const bool = typeCheck('boolean');
+
+const oneOf = (...allowed: string[]): Check => (value, path, issues) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push({ path, message: `expected one of ${allowed.join(' | ')}, got ${JSON.stringify(value)}` });
+  }
+};
+
+const optional = (check: Check): Check => (value, path, issues) => {
+  if (value !== undefined && value !== null) {
+    check(value, path, issues);
+  }
+};
+
+const anyObject: Check = (value, path, issues) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path, message: `expected object, got ${describe(value)}` });
+  }
+};
+
+const arrayOf = (check: Check): Check => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected array, got ${describe(value)}` });
+    return;
+  }
+  value.forEach((item, index) => check(item, joinPath(path, index), issues));
+};
+
+const objectOf = <T>(shape: Shape<T>): Check => (value, path, issues) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path: path || '(root)', message: `expected object, got ${describe(value)}` });
+    return;
+  }
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    shape[key]((value as Record<string, unknown>)[key], joinPath(path, key), issues);
+  }
+};
+
+const defineValidator = <T>(shape: Shape<T>): DataValidator<T> => {
+  const check = objectOf<T>(shape);
+  const validate = (value: unknown): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    check(value, '', issues);
+    return issues;
+  };
+  return {
+    validate,
+    is: (value: unknown): value is T => validate(value).length === 0
+  };
+};
+
+// ==========================================
+// DATA FILE SCHEMAS
+// ==========================================
+// Fields the consumers already default (card background/metadata, orbit config)
+// are accepted as optional so older data files keep loading.
+
+const sectionTitle = objectOf<{ title: string; description: string }>({
+  title: str,
+  description: str
+});
+
+const portfolioCardContent = objectOf<PortfolioCardContent>({
+  type: oneOf('image', 'video', 'iframe', 'html', 'canvas', 'component'),
+  content: str,
+  attributes: optional(anyObject)
+});
+
+const portfolioMediaItem = objectOf<PortfolioMediaItem>({
+  type: oneOf('image', 'video', 'iframe'),
+  src: str,
+  caption: optional(str)
+});
+
+const portfolioProject = objectOf<PortfolioCardData>({
+  id: str,
+  title: str,
+  description: str,
+  longDescription: optional(str),
+  gallery: optional(arrayOf(portfolioMediaItem)),
+  background: optional(portfolioCardContent),
+  link: optional(str),
+  target: optional(str),
+  category: str,
+  interactive: optional(bool),
+  metadata: optional(objectOf<PortfolioCardData['metadata']>({
+    tech: optional(arrayOf(str)),
+    year: optional(str),
+    status: optional(oneOf('completed', 'in-progress', 'archived')),
+    featured: optional(bool)
+  }))
+});
+
+export const portfolioResponseValidator = defineValidator<PortfolioResponse>({
+  sectionHeader: sectionTitle,
+  categories: optional(arrayOf(objectOf<NonNullable<PortfolioResponse['categories']>[number]>({
+    id: str,
+    label: str,
+    isDefault: optional(bool)
+  }))),
+  projects: arrayOf(portfolioProject),
+  metadata: optional(objectOf<NonNullable<PortfolioResponse['metadata']>>({
+    defaultFilter: str,
+    sortBy: str,
+    animationType: str
+  }))
+});
+
+export const skillsDataValidator = defineValidator<SkillsData>({
+  sectionHeader: objectOf<SectionHeader>({
+    title: str,
+    description: str,
+    casualPitch: str,
+    toolkitNote: str
+  }),
+  skills: arrayOf(objectOf<SkillContext>({
+    label: str,
+    skills: str
+  })),
+  metadata: objectOf<SkillsMetadata>({
+    displayMode: optional(str),
+    itemsPerRow: optional(objectOf<SkillsMetadata['itemsPerRow']>({
+      desktop: num,
+      mobile: num
+    })),
+    orbits: optional(arrayOf(str)),
+    orbitConfig: optional(objectOf<OrbitConfig>({
+      maxOrbits: num,
+      size: objectOf<OrbitConfig['size']>({ startSize: num, endSize: num, minSize: num }),
+      animation: objectOf<OrbitConfig['animation']>({ baseDuration: num, durationRange: num }),
+      direction: oneOf('alternating', 'clockwise', 'counterclockwise')
+    })),
+    cv: optional(objectOf<CvMetadata>({
+      url: str,
+      enabled: bool
+    }))
+  })
+});
+
+export const aboutContentValidator = defineValidator<IAboutContent>({
+  sectionHeader: sectionTitle,
+  contentBlocks: arrayOf(objectOf<IContentBlock>({
+    id: str,
+    timeline: objectOf<ITimelineData>({ title: str, date: str, icon: str }),
+    image: objectOf<IContentBlock['image']>({ src: str, alt: str }),
+    content: objectOf<IContentBlock['content']>({ type: str, text: str })
+  })),
+  metadata: optional(objectOf<IAboutContent['metadata']>({
+    alternationPattern: str,
+    mobileLayout: str,
+    startPosition: str
+  }))
+});
+
+export const personalInfoValidator = defineValidator<IPersonalInfo>({
+  name: str,
+  title: str,
+  profile: objectOf<IPersonalInfo['profile']>({
+    image: objectOf<IPersonalInfo['profile']['image']>({ src: str, alt: str })
+  }),
+  career: objectOf<IPersonalInfo['career']>({ startYear: num }),
+  location: objectOf<IPersonalInfo['location']>({ current: str, origin: str }),
+  institution: objectOf<IPersonalInfo['institution']>({ name: str, fullName: str, university: str }),
+  stats: arrayOf(objectOf<IPersonalInfo['stats'][number]>({ label: str, value: str })),
+  contact: objectOf<IPersonalInfo['contact']>({
+    email: str,
+    social: arrayOf(objectOf<ISocialPlatform>({
+      platform: str,
+      title: str,
+      description: str,
+      href: str,
+      icon: str,
+      color: str,
+      external: bool
+    }))
+  }),
+  bio: objectOf<IPersonalInfo['bio']>({ tagline: str, summary: str, author: str })
+});
+
+/**
+ * Backend content API route names, keyed by local URL.
+ * The backend validates these files with a mirror of the schemas above (packages/backend/content-schemas.js);
+ * data-schemas.fixtures.json holds the cases both sides must agree on.
+ */
+export const CONTENT_API_ROUTES: Record<string, string> = {
+  '/assets/data/portfolio.json': 'portfolio',
+  '/assets/data/skills.json': 'skills',
+  '/assets/data/about-content.json': 'about',
+  '/assets/data/personal-info.json': 'personal-info'
+};
+
+/**
+ * Validators registered by DataLoadingService at startup, keyed by local URL
+ */
+export const DATA_VALIDATORS: Record<string, DataValidator<unknown>> = {
+  '/assets/data/portfolio.json': portfolioResponseValidator,
+  '/assets/data/skills.json': skillsDataValidator,
+  '/assets/data/about-content.json': aboutContentValidator,
+  '/assets/data/personal-info.json': personalInfoValidator
+};
@@ -0,0 +1,118 @@
+// Typed model for /assets/environment.json
+
+export type EnvironmentProfileName = 'dev' | 'docker' | 'production';
+
+export interface ProxyConfig {
+  /**
+   * Proxy origin. `{protocol}` and `{hostname}` are replaced with the page's own values,
+   * so one build can reach a backend on the same host under a different port.
+   */
+  baseUrl: string;
+  endpoint: string;
+}
+
+export interface ContentApiConfig {
+  /** Load configured data files from the backend content API before their outreach sources */
+  enabled: boolean;
+  /** Route prefix on the proxy origin, e.g. '/api/content' */
+  endpoint: string;
+}
+
+export interface ContactApiConfig {
+  /** Show the contact form and post it to the backend */
+  enabled: boolean;
+  /** Route on the proxy origin, e.g. '/api/contact' */
+  endpoint: string;
+}
+
+export interface OutreachConfig {
+  /** Local path or external URL of outreachConfig.json */
+  configPath: string;
+  /** Poll the config for changes this often, in milliseconds (0 disables polling) */
+  reloadIntervalMs: number;
+}
+
+export interface FeatureFlags {
+  /** Prefetch the CV blob once configuration is available */
+  cvPrefetch: boolean;
+  /** Keep fetched data in the persistent IndexedDB tier */
+  persistentCache: boolean;
+  /** Show a toast when a background refresh changes displayed content */
+  contentUpdateToast: boolean;
+}
+
+export interface CachePolicyConfig {
+  /** Default freshness window for cached data, in milliseconds */
+  ttlMs: number;
+  staleWhileRevalidate: boolean;
+  /** Size budget of the persistent tier, in bytes */
+  persistentBudgetBytes: number;
+}
+
+export interface EnvironmentProfile {
+  proxy: ProxyConfig;
+  contentApi: ContentApiConfig;
+  contactApi: ContactApiConfig;
+  outreach: OutreachConfig;
+  features: FeatureFlags;
+  cache: CachePolicyConfig;
+}
+
+/**
+ * Profile overrides as written in environment.json (merged over DEFAULT_ENVIRONMENT_PROFILE)
+ */
+export interface EnvironmentProfileOverrides {
+  proxy?: Partial<ProxyConfig>;
+  contentApi?: Partial<ContentApiConfig>;
+  contactApi?: Partial<ContactApiConfig>;
+  outreach?: Partial<OutreachConfig>;
+  features?: Partial<FeatureFlags>;
+  cache?: Partial<CachePolicyConfig>;
+}
+
+export interface EnvironmentConfig {
+  /** Profile used when neither the query parameter nor the hostname map selects one */
+  defaultProfile?: EnvironmentProfileName;
+  /** Hostname → profile; a leading '*.' matches any subdomain */
+  hostnames?: Record<string, EnvironmentProfileName>;
+  profiles: Partial<Record<EnvironmentProfileName, EnvironmentProfileOverrides>>;
+}
+
+export const ENVIRONMENT_PROFILE_NAMES: EnvironmentProfileName[] = ['dev', 'docker', 'production'];
+
+/**
+ * Query parameter that forces a profile, e.g. ?env=docker
+ */
+export const ENVIRONMENT_PROFILE_QUERY_PARAM = 'env';
+
+/**
+ * Baseline every profile is merged over; also used when environment.json can't be loaded
+ */
+export const DEFAULT_ENVIRONMENT_PROFILE: EnvironmentProfile = {
+  proxy: {
+    baseUrl: 'http://localhost:3001',
+    endpoint: '/proxy'
+  },
+  contentApi: {
+    enabled: false,
+    endpoint: '/api/content'
+  },
+  contactApi: {
+    enabled: false,
+    endpoint: '/api/contact'
+  },
+  outreach: {
+    configPath: '/assets/outreachConfig.json',
+    reloadIntervalMs: 0
+  },
+  features: {
+    cvPrefetch: true,
+    persistentCache: true,
+    contentUpdateToast: true
+  },
+  cache: {
+    ttlMs: 5 * 60_000,
+    staleWhileRevalidate: true,
+    persistentBudgetBytes: 25 * 1024 * 1024
+  }
+};
@@ -0,0 +1,96 @@
+import { ApplicationRef, Injectable, inject, signal } from '@angular/core';
+import { SwUpdate, VersionReadyEvent } from '@angular/service-worker';
+import { concat, interval } from 'rxjs';
+import { filter, first } from 'rxjs/operators';
+
+/**
+ * How often a long-lived tab asks the service worker for a new version
+ */
+const UPDATE_CHECK_INTERVAL_MS = 6 * 60 * 60_000;
+
+/**
+ * App Update Service - surfaces new app versions delivered by the Angular service worker
+ *
+ * Features:
+ * - Periodic update checks once the app is stable
+ * - `availableVersion` is set when a new version is downloaded and ready
+ * - Activates and reloads only on user consent
+ * - `unrecoverableReason` is set when the cached version can no longer be served
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AppUpdateService {
+  private swUpdate = inject(SwUpdate);
+  private appRef = inject(ApplicationRef);
+
+  readonly availableVersion = signal<VersionReadyEvent | null>(null);
+  readonly unrecoverableReason = signal<string | null>(null);
+  readonly isActivating = signal(false);
+
+  constructor() {
+    if (!this.swUpdate.isEnabled) {
+      return;
+    }
+
+    this.swUpdate.versionUpdates.subscribe(event => {
+      switch (event.type) {
+        case 'VERSION_READY':
+          this.availableVersion.set(event);
+          break;
+        case 'VERSION_INSTALLATION_FAILED':
+          console.warn(`Failed to install app version ${event.version.hash}:`, event.error);
+          break;
+      }
+    });
+
+    this.swUpdate.unrecoverable.subscribe(event => {
+      console.error('Service worker reported an unrecoverable state:', event.reason);
+      this.unrecoverableReason.set(event.reason);
+    });
+
+    // Don't let the polling keep the app from becoming stable (it would delay SW registration)
+    const appIsStable$ = this.appRef.isStable.pipe(first(stable => stable));
+    concat(appIsStable$, interval(UPDATE_CHECK_INTERVAL_MS))
+      .pipe(filter(() => typeof document === 'undefined' || !document.hidden))
+      .subscribe(() => this.checkForUpdate());
+  }
+
+  /**
+   * Ask the service worker to look for a new version now
+   */
+  async checkForUpdate(): Promise<boolean> {
+    if (!this.swUpdate.isEnabled) {
+      return false;
+    }
+    try {
+      return await this.swUpdate.checkForUpdate();
+    } catch (error) {
+      console.warn('Update check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Switch to the ready version and reload so the new bundle takes over
+   */
+  async activateAndReload(): Promise<void> {
+    this.isActivating.set(true);
+    try {
+      if (this.availableVersion()) {
+        await this.swUpdate.activateUpdate();
+      }
+    } catch (error) {
+      // A plain reload still picks up the new version on the next navigation
+      console.warn('Activating the new version failed, reloading anyway:', error);
+    }
+    document.location.reload();
+  }
+
+  /**
+   * Keep running the current version; the prompt returns with the next ready version
+   */
+  dismiss(): void {
+    this.availableVersion.set(null);
+  }
+}
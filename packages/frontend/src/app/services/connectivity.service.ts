@@ -0,0 +1,20 @@
+import { Injectable, signal } from '@angular/core';
+
+/**
+ * Connectivity Service - tracks whether the browser reports a network connection
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService {
+  readonly online = signal(typeof navigator === 'undefined' ? true : navigator.onLine);
+
+  constructor() {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    // Root service: listeners live as long as the page
+    window.addEventListener('online', () => this.online.set(true));
+    window.addEventListener('offline', () => this.online.set(false));
+  }
+}
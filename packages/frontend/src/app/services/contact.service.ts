@@ -0,0 +1,111 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { EnvironmentService } from './environment.service';
+
+/**
+ * Body of POST /api/contact
+ */
+export interface ContactSubmission {
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+  /** Honeypot: hidden from people, so anything here marks the submission as spam */
+  website: string;
+}
+
+export type ContactField = 'name' | 'email' | 'subject' | 'message' | 'form';
+
+/**
+ * Field limits enforced by the backend
+ */
+export const CONTACT_LIMITS = {
+  name: 100,
+  email: 254,
+  subject: 150,
+  messageMin: 10,
+  message: 5000
+} as const;
+
+/**
+ * Submission the backend rejected or could not take
+ */
+export class ContactSubmitError extends Error {
+  public readonly code: string;
+  /** Server-side validation messages per field */
+  public readonly fields: Partial<Record<ContactField, string>>;
+  public readonly retryAfterSeconds?: number;
+
+  constructor(message: string, code: string, fields: Partial<Record<ContactField, string>> = {}, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ContactSubmitError';
+    this.code = code;
+    this.fields = fields;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Contact Service - sends contact form submissions to the backend
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ContactService {
+  private http = inject(HttpClient);
+  private environment = inject(EnvironmentService);
+
+  /**
+   * Whether the active profile has a contact endpoint
+   */
+  async isAvailable(): Promise<boolean> {
+    await this.environment.ensureLoaded();
+    return this.environment.buildContactApiUrl() !== null;
+  }
+
+  /**
+   * Post a submission; resolves with its reference id, rejects with a ContactSubmitError
+   */
+  async send(submission: ContactSubmission): Promise<string | null> {
+    await this.environment.ensureLoaded();
+    const url = this.environment.buildContactApiUrl();
+    if (!url) {
+      throw new ContactSubmitError('The contact form is not available right now.', 'CONTACT_DISABLED');
+    }
+
+    try {
+      const response = await firstValueFrom(this.http.post<{ id?: string; status: string }>(url, submission));
+      return response.id ?? null;
+    } catch (error) {
+      throw this.toSubmitError(error);
+    }
+  }
+
+  // ==========================================
+  // PRIVATE IMPLEMENTATION
+  // ==========================================
+
+  private toSubmitError(error: unknown): ContactSubmitError {
+    if (!(error instanceof HttpErrorResponse)) {
+      return new ContactSubmitError('The message could not be sent.', 'CONTACT_FAILED');
+    }
+
+    const body = error.error && typeof error.error === 'object' ? error.error : {};
+    if (error.status === 0) {
+      return new ContactSubmitError('The server could not be reached. Please check your connection and try again.', 'NETWORK_ERROR');
+    }
+    if (error.status === 429) {
+      const retryAfter = Number(body.retryAfter ?? error.headers.get('Retry-After')) || undefined;
+      const wait = retryAfter ? ` in ${Math.ceil(retryAfter / 60)} minute(s)` : ' later';
+      return new ContactSubmitError(`Too many messages sent. Please try again${wait}.`, 'RATE_LIMITED', {}, retryAfter);
+    }
+    if (error.status === 400 && body.fields) {
+      return new ContactSubmitError('Please correct the highlighted fields.', body.code ?? 'CONTACT_INVALID', body.fields);
+    }
+    return new ContactSubmitError(
+      'The message could not be sent. Please try again later or use one of the channels above.',
+      body.code ?? 'CONTACT_FAILED'
+    );
+  }
+}
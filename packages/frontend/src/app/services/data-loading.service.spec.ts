@@ -0,0 +1,476 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpEventType, provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import {
+  DataLoadingService,
+  DataValidationError,
+  ExternalSourceError,
+  LocalSourceError,
+  SourceChainError
+} from './data-loading.service';
+import { PersistentCacheService } from './persistent-cache.service';
+
+// A data file without a registered validator, so any payload is accepted
+const PATH = 'assets/data/notes.json';
+const LOCAL_URL = '/assets/data/notes.json';
+const EXTERNAL_URL = 'https://cdn.example.com/notes.json';
+const PROXY_URL = `http://localhost:3001/proxy?url=${encodeURIComponent(EXTERNAL_URL)}`;
+
+const SKILLS = {
+  sectionHeader: { title: 'Skills', description: 'Toolkit', casualPitch: 'Hi', toolkitNote: 'Note' },
+  skills: [],
+  metadata: {}
+};
+
+const PORTFOLIO = {
+  sectionHeader: { title: 'Work', description: 'Selected projects' },
+  projects: [{ id: 'orbit', title: 'Orbit', description: 'Skill orbit', category: 'web' }]
+};
+
+/**
+ * Let resolved HTTP responses and zero-delay retry timers run through the service's awaits
+ */
+async function settle(): Promise<void> {
+  for (let turn = 0; turn < 3; turn++) {
+    await new Promise(resolve => setTimeout(resolve));
+  }
+}
+
+describe('DataLoadingService', () => {
+  let service: DataLoadingService;
+  let http: HttpTestingController;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    spyOn(Date, 'now').and.callFake(() => now);
+    // Background revalidations wait for an idle period; run them on the next turn
+    (globalThis as { requestIdleCallback?: unknown }).requestIdleCallback = (run: () => void) => setTimeout(run);
+
+    // Keep IndexedDB out of the picture so no entry survives from one spec to the next
+    const persistentCache = jasmine.createSpyObj<PersistentCacheService>('PersistentCacheService', ['get', 'put', 'delete', 'setBudget', 'getStats']);
+    persistentCache.get.and.resolveTo(null);
+    persistentCache.put.and.resolveTo();
+    persistentCache.delete.and.resolveTo();
+    persistentCache.setBudget.and.resolveTo();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: PersistentCacheService, useValue: persistentCache }
+      ]
+    });
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    delete (globalThis as { requestIdleCallback?: unknown }).requestIdleCallback;
+    http.verify();
+  });
+
+  /**
+   * Create the service and answer its startup requests
+   * @param outreachConfig Outreach config to serve, mapping local paths to external overrides
+   */
+  async function start(outreachConfig: object = {}): Promise<void> {
+    service = TestBed.inject(DataLoadingService);
+    // Environment first, then the outreach config it points at
+    await answer('/assets/environment.json', {});
+    await answer('/assets/outreachConfig.json', outreachConfig);
+    // The CV prefetch reads skills.json and stops there without CV metadata
+    await answer('/assets/data/skills.json', SKILLS);
+  }
+
+  /**
+   * Answer the one open request whose URL starts with the given path
+   */
+  async function answer(url: string, body: object | string): Promise<void> {
+    http.expectOne(request => request.url.startsWith(url)).flush(body);
+    await settle();
+  }
+
+  /**
+   * Fail the one open request for a URL with an HTTP status
+   */
+  async function fail(url: string, status: number): Promise<void> {
+    http.expectOne(url).flush('Failed', { status, statusText: 'Failed' });
+    await settle();
+  }
+
+  /**
+   * Request a path and answer its local request with the given body
+   */
+  async function load(body: object): Promise<unknown> {
+    const result = service.getData(PATH);
+    await settle();
+    http.expectOne(LOCAL_URL).flush(body);
+    return result;
+  }
+
+  describe('cache policies', () => {
+    beforeEach(() => start());
+
+    it('serves a fresh entry from the cache and reloads it once the TTL has passed', async () => {
+      service.setCachePolicy(PATH, { ttlMs: 1000, staleWhileRevalidate: false });
+      expect(await load({ version: 1 })).toEqual({ version: 1 });
+
+      now += 999;
+      expect(await service.getData(PATH)).toEqual({ version: 1 });
+      http.expectNone(LOCAL_URL);
+
+      now += 1;
+      expect(await load({ version: 2 })).toEqual({ version: 2 });
+    });
+
+    it('serves a stale entry at once and publishes the background refresh', async () => {
+      service.setCachePolicy(PATH, { ttlMs: 1000 });
+      await load({ version: 1 });
+      const updates: unknown[] = [];
+      service.onDataUpdated(PATH).subscribe(data => updates.push(data));
+
+      now += 1000;
+      expect(await service.getData(PATH)).toEqual({ version: 1 });
+      expect(service.getCacheStats().refreshing).toBe(1);
+
+      // A second stale read does not start another refresh
+      expect(await service.getData(PATH)).toEqual({ version: 1 });
+      await settle();
+      http.expectOne(LOCAL_URL).flush({ version: 2 });
+      await settle();
+
+      expect(updates).toEqual([{ version: 2 }]);
+      expect(await service.getData(PATH)).toEqual({ version: 2 });
+    });
+
+    it('keeps the stale entry when the background refresh fails', async () => {
+      service.setCachePolicy(PATH, { ttlMs: 1000 });
+      await load({ version: 1 });
+      spyOn(console, 'warn');
+
+      now += 1000;
+      expect(await service.getData(PATH)).toEqual({ version: 1 });
+      await settle();
+      http.expectOne(LOCAL_URL).flush('Not found', { status: 404, statusText: 'Not Found' });
+      await settle();
+
+      expect(service.getCacheStats().refreshing).toBe(0);
+      expect(await service.getData(PATH)).toEqual({ version: 1 });
+      await settle();
+      http.expectOne(LOCAL_URL).flush({ version: 2 });
+      await settle();
+    });
+
+    it('hands out copies so callers cannot change the cached entry', async () => {
+      const first = await load({ tags: ['a'] }) as { tags: string[]; extra?: boolean };
+      first.extra = true;
+      expect(await service.getData(PATH)).toEqual({ tags: ['a'] });
+    });
+  });
+
+  describe('retries and failures', () => {
+    /**
+     * Record the backoff delays the service waits for, without actually waiting
+     */
+    function recordBackoff(): number[] {
+      const delays: number[] = [];
+      const realSetTimeout = globalThis.setTimeout;
+      spyOn(globalThis, 'setTimeout').and.callFake(((handler: TimerHandler, delay?: number) => {
+        if (delay) {
+          delays.push(delay);
+        }
+        return realSetTimeout(handler);
+      }) as unknown as typeof setTimeout);
+      return delays;
+    }
+
+    it('retries server errors with exponential backoff capped at maxDelayMs', async () => {
+      await start();
+      service.setRetryPolicy({ maxAttempts: 4, baseDelayMs: 100, backoffFactor: 3, maxDelayMs: 500 });
+      const delays = recordBackoff();
+
+      const result = service.getData(PATH);
+      await settle();
+      for (const status of [503, 502, 500]) {
+        await fail(LOCAL_URL, status);
+      }
+      http.expectOne(LOCAL_URL).flush({ version: 1 });
+
+      expect(await result).toEqual({ version: 1 });
+      expect(delays).toEqual([100, 300, 500]);
+    });
+
+    it('gives up on client errors at once and remembers the failure until the negative TTL expires', async () => {
+      await start();
+      service.setRetryPolicy({ negativeCacheTtlMs: 30_000 }, PATH);
+
+      const result = service.getData(PATH).catch(reason => reason);
+      await settle();
+      await fail(LOCAL_URL, 404);
+      const error = await result;
+      expect(error).toEqual(jasmine.any(LocalSourceError));
+      expect(error.attempts).toBe(1);
+      expect(service.getCacheStats().failures).toBe(1);
+
+      now += 29_999;
+      await expectAsync(service.getData(PATH)).toBeRejectedWith(error);
+      http.expectNone(LOCAL_URL);
+
+      now += 1;
+      expect(await load({ version: 1 })).toEqual({ version: 1 });
+      expect(service.getCacheStats().failures).toBe(0);
+    });
+
+    it('retries each leg and reports both when the override and the local file fail', async () => {
+      await start({ [LOCAL_URL]: EXTERNAL_URL });
+      spyOn(console, 'warn');
+      spyOn(console, 'error');
+      service.setRetryPolicy({ maxAttempts: 2, baseDelayMs: 0 });
+
+      const result = service.getData(PATH).catch(reason => reason);
+      await settle();
+      await fail(PROXY_URL, 503);
+      await fail(PROXY_URL, 503);
+      await fail(LOCAL_URL, 404);
+
+      const error: SourceChainError = await result;
+      expect(error.failedLegs).toEqual(['external', 'local']);
+      const [external, local] = error.errors as [ExternalSourceError, LocalSourceError];
+      expect(external.externalUrl).toBe(EXTERNAL_URL);
+      expect(external.attempts).toBe(2);
+      expect(local.attempts).toBe(1);
+    });
+  });
+
+  describe('validation', () => {
+    it('rejects an invalid data file with every failing field, without retrying', async () => {
+      await start();
+      const result = service.getData('assets/data/portfolio.json').catch(reason => reason);
+      await settle();
+      await answer('/assets/data/portfolio.json', { sectionHeader: PORTFOLIO.sectionHeader, projects: [{ id: 7 }] });
+
+      const error: DataValidationError = await result;
+      expect(error).toEqual(jasmine.any(DataValidationError));
+      expect(error.leg).toBe('local');
+      expect(error.fieldPaths).toEqual(['projects[0].id', 'projects[0].title', 'projects[0].description', 'projects[0].category']);
+    });
+
+    it('falls back to the local file when the external payload is invalid', async () => {
+      await start({ '/assets/data/portfolio.json': EXTERNAL_URL });
+      spyOn(console, 'warn');
+
+      const result = service.getData('assets/data/portfolio.json');
+      await settle();
+      await answer(PROXY_URL, JSON.stringify({ projects: 'none' }));
+      await answer('/assets/data/portfolio.json', PORTFOLIO);
+
+      expect(await result).toEqual(PORTFOLIO);
+    });
+
+    it('validates paths registered at runtime', async () => {
+      await start();
+      service.registerValidator(PATH, {
+        validate: value => typeof value === 'object' && value !== null && 'title' in value ? [] : [{ path: 'title', message: 'missing' }],
+        is: (value): value is { title: string } => true
+      });
+
+      const result = service.getData(PATH).catch(reason => reason);
+      await settle();
+      await answer(LOCAL_URL, {});
+      expect((await result).fieldPaths).toEqual(['title']);
+    });
+  });
+
+  describe('conditional revalidation', () => {
+    it('replays the ETag of an external override and keeps the entry on 304', async () => {
+      await start({ [LOCAL_URL]: EXTERNAL_URL });
+      service.setCachePolicy(PATH, { ttlMs: 1000, staleWhileRevalidate: false });
+      const updates = jasmine.createSpy('updates');
+      service.dataUpdated$.subscribe(updates);
+
+      const first = service.getData(PATH);
+      await settle();
+      http.expectOne(PROXY_URL).flush(JSON.stringify({ version: 1 }), {
+        headers: { ETag: '"v1"', 'Last-Modified': 'Mon, 05 Oct 2026 10:00:00 GMT' }
+      });
+      expect(await first).toEqual({ version: 1 });
+
+      now += 1000;
+      const second = service.getData(PATH);
+      await settle();
+      const revalidation = http.expectOne(PROXY_URL);
+      expect(revalidation.request.headers.get('If-None-Match')).toBe('"v1"');
+      expect(revalidation.request.headers.get('If-Modified-Since')).toBe('Mon, 05 Oct 2026 10:00:00 GMT');
+      revalidation.flush(null, { status: 304, statusText: 'Not Modified' });
+
+      expect(await second).toEqual({ version: 1 });
+      expect(updates).not.toHaveBeenCalled();
+
+      // The entry is fresh again after the 304
+      expect(await service.getData(PATH)).toEqual({ version: 1 });
+    });
+
+    it('sends no validators for an entry that came from the local file', async () => {
+      await start({ [LOCAL_URL]: EXTERNAL_URL });
+      spyOn(console, 'warn');
+      spyOn(console, 'error');
+      service.setCachePolicy(PATH, { ttlMs: 1000, staleWhileRevalidate: false });
+      service.setRetryPolicy({ maxAttempts: 1 });
+
+      const first = service.getData(PATH);
+      await settle();
+      http.expectOne(PROXY_URL).flush('Failed', { status: 502, statusText: 'Bad Gateway' });
+      await settle();
+      await answer(LOCAL_URL, { version: 1 });
+      expect(await first).toEqual({ version: 1 });
+
+      now += 1000;
+      const second = service.getData(PATH);
+      await settle();
+      const request = http.expectOne(PROXY_URL);
+      expect(request.request.headers.has('If-None-Match')).toBeFalse();
+      request.flush(JSON.stringify({ version: 2 }));
+      expect(await second).toEqual({ version: 2 });
+    });
+
+    it('publishes a content change only when the content hash differs', async () => {
+      await start();
+      service.setCachePolicy(PATH, { ttlMs: 1000 });
+      const updates = jasmine.createSpy('updates');
+      const changes = jasmine.createSpy('changes');
+      service.dataUpdated$.subscribe(updates);
+      service.contentChanged$.subscribe(changes);
+      await load({ version: 1 });
+
+      now += 1000;
+      await service.getData(PATH);
+      await settle();
+      await answer(LOCAL_URL, { version: 1 });
+      expect(updates).not.toHaveBeenCalled();
+
+      now += 1000;
+      await service.getData(PATH);
+      await settle();
+      await answer(LOCAL_URL, { version: 2 });
+      expect(changes).toHaveBeenCalledTimes(1);
+      const change = changes.calls.mostRecent().args[0];
+      expect(change.data).toEqual({ version: 2 });
+      expect(change.hash).not.toBe(change.previousHash);
+    });
+  });
+
+  describe('source chains', () => {
+    const MIRROR_URL = 'https://mirror.example.com/notes.json';
+    const proxied = (url: string) => `http://localhost:3001/proxy?url=${encodeURIComponent(url)}`;
+
+    beforeEach(() => {
+      spyOn(console, 'warn');
+      spyOn(console, 'error');
+    });
+
+    it('falls through the chain in order and serves the first source that answers', async () => {
+      await start({ [LOCAL_URL]: [EXTERNAL_URL, { url: MIRROR_URL }, 'local'] });
+      service.setRetryPolicy({ maxAttempts: 1 });
+
+      const result = service.getData(PATH);
+      await settle();
+      await fail(proxied(EXTERNAL_URL), 404);
+      http.expectOne(proxied(MIRROR_URL)).flush(JSON.stringify({ from: 'mirror' }));
+
+      expect(await result).toEqual({ from: 'mirror' });
+    });
+
+    it('tries the local asset where the chain places it', async () => {
+      await start({ [LOCAL_URL]: ['local', MIRROR_URL] });
+      service.setRetryPolicy({ maxAttempts: 1 });
+
+      const result = service.getData(PATH);
+      await settle();
+      await fail(LOCAL_URL, 404);
+      http.expectOne(proxied(MIRROR_URL)).flush(JSON.stringify({ from: 'mirror' }));
+
+      expect(await result).toEqual({ from: 'mirror' });
+    });
+
+    it('reports every failed source in the order it was tried', async () => {
+      await start({ [LOCAL_URL]: [EXTERNAL_URL, 'local', MIRROR_URL] });
+      service.setRetryPolicy({ maxAttempts: 1 });
+
+      const result = service.getData(PATH).catch(reason => reason);
+      await settle();
+      await fail(proxied(EXTERNAL_URL), 500);
+      await fail(LOCAL_URL, 404);
+      await fail(proxied(MIRROR_URL), 404);
+
+      const error: SourceChainError = await result;
+      expect(error).toEqual(jasmine.any(SourceChainError));
+      expect(error.failedLegs).toEqual(['external', 'local', 'external']);
+      expect(error.externalErrors.map(failure => (failure as ExternalSourceError).externalUrl)).toEqual([EXTERNAL_URL, MIRROR_URL]);
+      expect(error.cause).toBe(error.errors[2]);
+    });
+
+    it('keeps an invalid external payload as a validation error of the external leg', async () => {
+      await start({ '/assets/data/portfolio.json': EXTERNAL_URL });
+      service.setRetryPolicy({ maxAttempts: 1 });
+
+      const result = service.getData('assets/data/portfolio.json').catch(reason => reason);
+      await settle();
+      await answer(proxied(EXTERNAL_URL), JSON.stringify({ projects: 'none' }));
+      await fail('/assets/data/portfolio.json', 404);
+
+      const [external, local] = (await result as SourceChainError).errors;
+      expect(external).toEqual(jasmine.any(DataValidationError));
+      expect(external.leg).toBe('external');
+      expect(local).toEqual(jasmine.any(LocalSourceError));
+    });
+  });
+
+  describe('download progress', () => {
+    const DOC_PATH = 'assets/docs/brochure.pdf';
+    const DOC_URL = '/assets/docs/brochure.pdf';
+
+    beforeEach(() => start());
+
+    it('reports progress of a blob download, then its completion', async () => {
+      const events: unknown[] = [];
+      const result = service.getBlob(DOC_PATH, { onProgress: event => events.push(event) });
+      await settle();
+
+      const request = http.expectOne(DOC_URL);
+      expect(request.request.reportProgress).toBeTrue();
+      request.event({ type: HttpEventType.DownloadProgress, loaded: 2, total: 4 });
+      request.event({ type: HttpEventType.DownloadProgress, loaded: 4 });
+      request.flush(new Blob(['data']));
+      await result;
+
+      expect(events).toEqual([
+        { path: DOC_URL, source: 'local', loaded: 2, total: 4 },
+        { path: DOC_URL, source: 'local', loaded: 4, total: null },
+        { path: DOC_URL, source: 'local', loaded: 4, total: 4 }
+      ]);
+    });
+
+    it('reports a cached blob as complete at once', async () => {
+      const first = service.getBlob(DOC_PATH);
+      await settle();
+      http.expectOne(DOC_URL).flush(new Blob(['data']));
+      await first;
+
+      const onProgress = jasmine.createSpy('onProgress');
+      await service.getBlob(DOC_PATH, { onProgress });
+      expect(onProgress).toHaveBeenCalledOnceWith({ path: DOC_URL, source: 'local', loaded: 4, total: 4 });
+    });
+
+    it('does not ask for progress events of JSON loads', async () => {
+      const onProgress = jasmine.createSpy('onProgress');
+      const result = service.getData(PATH, 'json', { onProgress });
+      await settle();
+
+      const request = http.expectOne(LOCAL_URL);
+      expect(request.request.reportProgress).toBeFalse();
+      request.flush({ version: 1 });
+      await result;
+      expect(onProgress).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,13 @@
-﻿import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { firstValueFrom } from 'rxjs';
+﻿import { Injectable, OnDestroy } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpEvent, HttpEventType, HttpHeaders, HttpResponse } from '@angular/common/http';
+import { Observable, Subject, firstValueFrom } from 'rxjs';
+import { filter, map, tap, timeout } from 'rxjs/operators';
+import { PersistentCacheService, PersistentCacheStats } from './persistent-cache.service';
+import { CONTENT_API_ROUTES, DATA_VALIDATORS, DataValidator, ValidationIssue } from '../models/data-schemas';
+import { DataResource, DataResourceRef } from './data-resource';
+import { EnvironmentService } from './environment.service';
+import { RequestPriority, RequestScheduler, createAbortError, isAbortError, toAbortablePromise } from './request-scheduler';
+import { DEFAULT_ENVIRONMENT_PROFILE } from '../models/environment-config';
 
 // ==========================================
 // CUSTOM ERROR CLASSES
@@ -21,12 +28,93 @@ export class DataLoadError extends Error {
   }
 }
 
+/**
+ * Source leg that a load attempt went through
+ */
+export type DataSourceLeg = 'external' | 'local';
+
 /**
  * Error for external source failures
  */
 export class ExternalSourceError extends DataLoadError {
-  constructor(path: string, externalUrl: string, cause?: Error) {
+  public readonly leg: DataSourceLeg = 'external';
+  public readonly externalUrl: string;
+  public readonly attempts: number;
+
+  constructor(path: string, externalUrl: string, cause?: Error, attempts: number = 1) {
     super(`Failed to load external data for ${path} from ${externalUrl}`, 'ExternalSourceError', path, cause);
+    this.externalUrl = externalUrl;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Error for local asset failures
+ */
+export class LocalSourceError extends DataLoadError {
+  public readonly leg: DataSourceLeg = 'local';
+  public readonly attempts: number;
+
+  constructor(path: string, cause?: Error, attempts: number = 1) {
+    super(`Failed to load data for ${path}: ${cause?.message ?? 'Unknown error'}`, 'LocalSourceError', path, cause);
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Error for payloads that don't match the validator registered for their path.
+ * Lists every failing field so a malformed data file can be fixed in one pass.
+ */
+export class DataValidationError extends DataLoadError {
+  public readonly leg: DataSourceLeg;
+  public readonly issues: ValidationIssue[];
+
+  constructor(path: string, leg: DataSourceLeg, issues: ValidationIssue[]) {
+    const summary = issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : '';
+    super(`Invalid ${leg} data for ${path}: ${summary}${more}`, 'DataValidationError', path);
+    this.leg = leg;
+    this.issues = issues;
+  }
+
+  /**
+   * Field paths that failed validation, e.g. 'projects[2].title'
+   */
+  get fieldPaths(): string[] {
+    return this.issues.map(issue => issue.path);
+  }
+}
+
+/**
+ * Failure of a single source of a chain
+ */
+export type SourceFailure = ExternalSourceError | LocalSourceError | DataValidationError;
+
+/**
+ * Error for a chain of several sources that all failed.
+ * Keeps every source's error in the order the sources were tried; the cause is the last one.
+ */
+export class SourceChainError extends DataLoadError {
+  public readonly errors: SourceFailure[];
+
+  constructor(path: string, errors: SourceFailure[]) {
+    const tried = errors.map(error => error instanceof ExternalSourceError ? error.externalUrl : error.leg).join(', ');
+    super(`Failed to load data for ${path} from every source (${tried})`, 'SourceChainError', path, errors[errors.length - 1]);
+    this.errors = errors;
+  }
+
+  /**
+   * Legs that failed, in the order they were tried
+   */
+  get failedLegs(): DataSourceLeg[] {
+    return this.errors.map(error => error.leg);
+  }
+
+  /**
+   * Failures of the external sources, in the order they were tried
+   */
+  get externalErrors(): SourceFailure[] {
+    return this.errors.filter(error => error.leg === 'external');
   }
 }
 
@@ -49,12 +137,12 @@ export class ConfigError extends DataLoadError {
 class ConfigLoader<T = any> {
   private data: T | null = null;
   private loaded = false;
-  private loadingPromise: Promise<void> | null = null;
+  private loadingPromise: Promise<boolean> | null = null;
 
   constructor(
     private configPath: string,
     private http: HttpClient,
-    private environmentConfig: any,
+    private buildProxyUrl: ((targetUrl: string) => string) | null,
     private useProxyForExternal: boolean = true
   ) {}
 
@@ -89,20 +177,32 @@ class ConfigLoader<T = any> {
     await this.loadingPromise;
   }
 
+  /**
+   * Fetch the configuration again. The current data stays in place until
+   * a valid replacement arrives, and is kept if the reload fails.
+   * @returns true when fresh configuration was applied
+   */
+  async reload(): Promise<boolean> {
+    if (this.loadingPromise) {
+      await this.loadingPromise;
+    }
+
+    this.loadingPromise = this.loadConfig();
+    return this.loadingPromise;
+  }
+
   /**
    * Load configuration from the specified path
    */
-  private async loadConfig(): Promise<void> {
+  private async loadConfig(): Promise<boolean> {
     try {
       const isExternalUrl = this.configPath.startsWith('http://') || this.configPath.startsWith('https://');
 
       let configData: any;
 
-      if (isExternalUrl && this.useProxyForExternal) {
+      if (isExternalUrl && this.useProxyForExternal && this.buildProxyUrl) {
         // Use proxy server for external URLs
-        const proxyBaseUrl = this.environmentConfig?.proxy?.baseUrl || 'http://localhost:3001';
-        const proxyEndpoint = this.environmentConfig?.proxy?.endpoint || '/proxy';
-        const proxyUrl = `${proxyBaseUrl}${proxyEndpoint}?url=${encodeURIComponent(this.configPath)}`;
+        const proxyUrl = this.buildProxyUrl(this.configPath);
 
   configData = await firstValueFrom(this.http.get<any>(proxyUrl, { responseType: 'json' as const }));
       } else {
@@ -115,17 +215,15 @@ class ConfigLoader<T = any> {
       if (configData && typeof configData === 'object') {
         this.data = configData as T;
         this.loaded = true;
-        return;
+        return true;
       }
 
-      // Invalid config structure
-      this.data = null;
-      this.loaded = false;
+      // Invalid config structure: keep whatever was loaded before
+      return false;
 
     } catch (error) {
-      // Config loading failed
-      this.data = null;
-      this.loaded = false;
+      // Config loading failed: keep whatever was loaded before
+      return false;
     }
   }
 
@@ -145,10 +243,234 @@ class ConfigLoader<T = any> {
 interface DataCacheEntry {
   data: any;
   timestamp: number;
-  source: 'local' | 'external';
+  source: DataSourceLeg;
   responseType: ResponseType;
+  /** Source that finally served the data: the external URL, or 'local' for the bundled asset */
+  servedBy?: string;
+  /** SHA-256 of the payload, used to detect real content changes */
+  hash?: string;
+  /** Validators from the external source, replayed as a conditional request on revalidation */
+  etag?: string;
+  lastModified?: string;
+  /** When the origin produced the response (its Date header), which survives HTTP and service worker caches */
+  fetchedAt?: number;
+}
+
+/**
+ * Outcome of a load through performDataLoad
+ */
+interface LoadResult {
+  data: any;
+  source: DataSourceLeg;
+  servedBy: string;
+  hash?: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt?: number;
+  /** The external source answered 304, data is the previously cached payload */
+  notModified?: boolean;
+}
+
+/**
+ * One source in an outreach config chain, as written in outreachConfig.json.
+ * A path maps to a URL string, a source object, or an ordered array of either;
+ * the string 'local' (or { "url": "local" }) marks where the bundled asset is tried.
+ *
+ * @example
+ * ```json
+ * "/assets/data/portfolio.json": [
+ *   { "url": "https://mirror.example.com/portfolio.json", "timeoutMs": 3000 },
+ *   { "url": "https://raw.githubusercontent.com/owner/repo/main/portfolio.json", "responseType": "text" },
+ *   "github://owner/repo/data/portfolio.json@main",
+ *   "local"
+ * ]
+ * ```
+ *
+ * `github://`, `s3://`, `dropbox://` and `drive://` URLs are resolved by the backend's upstream adapters
+ * and are always requested through the proxy.
+ */
+export interface OutreachSourceConfig {
+  url: string;
+  /** Give up on this source after this many milliseconds */
+  timeoutMs?: number;
+  /** How the source serves the payload, when it differs from what the caller asked for */
+  responseType?: ResponseType;
 }
 
+type OutreachEntry = string | OutreachSourceConfig | (string | OutreachSourceConfig)[];
+
+/**
+ * Normalized step of a source chain
+ */
+interface DataSourceStep {
+  leg: DataSourceLeg;
+  /** External URL, or 'local' for the bundled asset */
+  url: string;
+  timeoutMs?: number;
+  responseType?: ResponseType;
+  /** Requested as-is instead of through the proxy (backend content API) */
+  direct?: boolean;
+}
+
+const LOCAL_SOURCE = 'local';
+
+// Schemes the backend proxy resolves with an upstream adapter
+const ADAPTER_SCHEME_PATTERN = /^(github|s3|dropbox|drive):\/\//i;
+
+/**
+ * Cache validators sent with a conditional external request
+ */
+interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Outcome of a proxied external request
+ */
+interface ExternalFetchResult {
+  data?: any;
+  notModified: boolean;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt?: number;
+}
+
+/**
+ * Per-call options for getData and the convenience getters
+ */
+export interface DataRequestOptions {
+  /** Scheduling priority; defaults to 'critical' for JSON and 'normal' otherwise */
+  priority?: RequestPriority;
+  /** Cancels this caller's request; the shared load is aborted once every caller has cancelled */
+  signal?: AbortSignal;
+  /** Download progress of blob and arraybuffer loads, for both the proxy and the local leg */
+  onProgress?: (event: DataProgressEvent) => void;
+}
+
+/**
+ * Download progress of a blob or arraybuffer load
+ */
+export interface DataProgressEvent {
+  /** Local URL of the path being loaded */
+  path: string;
+  /** Leg currently downloading; progress restarts when a chain falls through to the next source */
+  source: DataSourceLeg;
+  loaded: number;
+  /** Total bytes, or null when the server doesn't announce a length */
+  total: number | null;
+}
+
+/**
+ * Per-load plumbing threaded from getData down to the HTTP calls
+ */
+interface LoadContext {
+  signal?: AbortSignal;
+  onProgress?: (source: DataSourceLeg, loaded: number, total: number | null) => void;
+}
+
+/**
+ * Load shared by every concurrent caller of the same path
+ */
+interface PendingLoad {
+  promise: Promise<any>;
+  controller: AbortController;
+  /** Callers that can still cancel; a caller without a signal pins the load */
+  cancellableWaiters: number;
+  pinned: boolean;
+  progressListeners: Set<(event: DataProgressEvent) => void>;
+  /** Replayed to callers that join a load already in progress */
+  lastProgress?: DataProgressEvent;
+}
+
+/**
+ * Maximum number of data loads running at once
+ */
+const MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * Outcome of reloadOutreachConfig
+ */
+export interface OutreachConfigReloadResult {
+  /** False when the config couldn't be fetched; the previous config stays active */
+  reloaded: boolean;
+  /** Local URLs whose source chain changed and whose cache entries were invalidated */
+  changedPaths: string[];
+}
+
+/**
+ * Message type a service worker posts to clients when outreachConfig.json changed
+ */
+export const OUTREACH_CONFIG_UPDATED_MESSAGE = 'OUTREACH_CONFIG_UPDATED';
+
+/**
+ * Freshness policy applied to a cached path
+ */
+export interface CachePolicy {
+  /** How long an entry is considered fresh, in milliseconds */
+  ttlMs: number;
+  /** Serve stale entries immediately and refresh them in the background */
+  staleWhileRevalidate: boolean;
+}
+
+/**
+ * Emitted when a background refresh replaces a cached entry with fresher data
+ */
+export interface DataUpdateEvent<T = any> {
+  path: string;
+  data: T;
+  source: DataSourceLeg;
+  timestamp: number;
+  servedBy?: string;
+  hash?: string;
+  /** Hash of the replaced entry; differs from hash when the content actually changed */
+  previousHash?: string;
+}
+
+/**
+ * Retry behaviour applied to each source leg of a load
+ */
+export interface RetryPolicy {
+  /** Total attempts per leg, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry, in milliseconds */
+  baseDelayMs: number;
+  /** Multiplier applied to the delay after each failed attempt */
+  backoffFactor: number;
+  /** Upper bound for a single backoff delay, in milliseconds */
+  maxDelayMs: number;
+  /** How long a failed load is remembered before getData tries again, in milliseconds */
+  negativeCacheTtlMs: number;
+}
+
+/**
+ * Remembered failure for a path (negative cache entry)
+ */
+interface FailureEntry {
+  error: DataLoadError;
+  timestamp: number;
+}
+
+/**
+ * Policy used for paths without an explicit entry in the policy map,
+ * until the environment profile supplies its own
+ */
+const DEFAULT_CACHE_POLICY: CachePolicy = {
+  ttlMs: DEFAULT_ENVIRONMENT_PROFILE.cache.ttlMs,
+  staleWhileRevalidate: DEFAULT_ENVIRONMENT_PROFILE.cache.staleWhileRevalidate
+};
+
+/**
+ * Retry policy used for paths without an explicit entry in the policy map
+ */
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  backoffFactor: 2,
+  maxDelayMs: 4_000,
+  negativeCacheTtlMs: 30_000
+};
+
 // ==========================================
 // RESPONSE TYPE DEFINITIONS
 // ==========================================
@@ -156,7 +478,7 @@ interface DataCacheEntry {
 /**
  * Supported HTTP response types for data loading
  */
-type ResponseType = 'json' | 'text' | 'blob' | 'arraybuffer';
+export type ResponseType = 'json' | 'text' | 'blob' | 'arraybuffer';
 
 /**
  * Type-safe response data based on response type
@@ -172,62 +494,122 @@ type ResponseData<T extends ResponseType> =
  * Data Loading Service - Unified data loading with caching and fallback
  *
  * Features:
- * - Single cache architecture for memory efficiency
+ * - Single cache architecture for memory efficiency, backed by a persistent IndexedDB tier
+ * - Per-path TTLs with stale-while-revalidate background refreshes
  * - Request deduplication to prevent duplicate HTTP calls
+ * - Exponential backoff retries and a short-lived failure cache
  * - Automatic fallback from external to local sources
- * - Configuration-driven external source overrides
+ * - Configuration-driven external source overrides, including ordered multi-source chains
+ * - Per-path runtime validation of JSON payloads
  * - Custom error classes for better error handling
+ * - Reactive resources (signals + Observables) for consumers that render loading/error state
  *
  * @example
  * ```typescript
  * const portfolio = await dataLoadingService.getData<PortfolioData>('assets/data/portfolio.json');
+ *
+ * const skills = dataLoadingService.resource<SkillsData>('assets/data/skills.json');
+ * skills.load();
+ * // skills.value(), skills.status(), skills.error(), skills.source(), skills.reload()
  * ```
  */
 @Injectable({
   providedIn: 'root'
 })
-export class DataLoadingService {
+export class DataLoadingService implements OnDestroy {
   // ==========================================
   // SINGLE CACHE ARCHITECTURE
   // ==========================================
 
   /**
    * Single cache: local URL → cache entry (typed)
-   * Key is ALWAYS the local URL, value is the loaded data entry or undefined on error
+   * Key is ALWAYS the local URL
    */
-  private cache = new Map<string, DataCacheEntry | undefined>();
+  private cache = new Map<string, DataCacheEntry>();
+
+  /**
+   * Negative cache: local URL → last failure, honoured for the retry policy's negativeCacheTtlMs
+   */
+  private failures = new Map<string, FailureEntry>();
+
+  /**
+   * Per-path retry policies: local URL → policy (falls back to defaultRetryPolicy)
+   */
+  private retryPolicies = new Map<string, RetryPolicy>();
+  private defaultRetryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+  /**
+   * Shared reactive resources: responseType + local URL → resource
+   */
+  private resources = new Map<string, DataResourceRef<any>>();
+
+  /**
+   * Payload validators: local URL → validator for JSON responses
+   */
+  private validators = new Map<string, DataValidator<unknown>>(Object.entries(DATA_VALIDATORS));
 
   /**
    * Track in-flight requests to prevent duplicates
    */
-  private pendingRequests = new Map<string, Promise<any>>();
+  private pendingRequests = new Map<string, PendingLoad>();
+
+  /**
+   * Priority queue shared by every load, so large blobs don't compete with critical JSON
+   */
+  private scheduler = new RequestScheduler(MAX_CONCURRENT_REQUESTS);
+
+  /**
+   * Per-path cache policies: local URL → policy (falls back to defaultCachePolicy)
+   */
+  private cachePolicies = new Map<string, CachePolicy>();
+  private defaultCachePolicy: CachePolicy = DEFAULT_CACHE_POLICY;
+
+  /**
+   * Background refreshes in flight, keyed by local URL
+   */
+  private pendingRefreshes = new Set<string>();
+
+  /**
+   * Notifies consumers when a stale entry has been replaced by fresher data
+   */
+  private dataUpdatedSubject = new Subject<DataUpdateEvent>();
+  readonly dataUpdated$ = this.dataUpdatedSubject.asObservable();
+
+  /**
+   * Subset of dataUpdated$ where previously displayed content was replaced by different content
+   */
+  readonly contentChanged$ = this.dataUpdated$.pipe(
+    filter(event => !!event.previousHash && event.previousHash !== event.hash)
+  );
 
   private outreachConfigLoader: ConfigLoader<any>;
-  private environmentConfigLoader: ConfigLoader<any>;
+  private configReloadPromise: Promise<OutreachConfigReloadResult> | null = null;
+  private configPollTimer: ReturnType<typeof setInterval> | null = null;
   private cvPrefetched = false;
   private initializationPromise: Promise<void> | null = null;
 
   // Testing delay for loading component demonstration (set to 0 to disable)
   private readonly TESTING_DELAY_MS = 0; // 50 seconds - re-enabled for testing
 
-  constructor(private http: HttpClient) {
-    // Initialize config loaders
-    this.environmentConfigLoader = new ConfigLoader<any>(
-      '/assets/environment.json',
-      this.http,
-      null, // No environment config needed for loading environment config
-      false // Don't use proxy for environment config (it's always local)
-    );
-
+  constructor(
+    private http: HttpClient,
+    private persistentCache: PersistentCacheService,
+    private environment: EnvironmentService
+  ) {
     this.outreachConfigLoader = new ConfigLoader<any>(
-      '/assets/outreachConfig.json', // Default path, will be overridden by environment config
+      DEFAULT_ENVIRONMENT_PROFILE.outreach.configPath, // Replaced once the environment profile loads
       this.http,
-      null, // Will be set after environment config loads
+      null,
       true // Use proxy for external outreach configs
     );
 
     // Load environment config first, then outreach config
     this.initializationPromise = this.initializeConfigs();
+    this.listenForConfigMessages();
+  }
+
+  ngOnDestroy(): void {
+    this.stopOutreachConfigPolling();
   }
 
   /**
@@ -235,22 +617,30 @@ export class DataLoadingService {
    */
   private async initializeConfigs(): Promise<void> {
     try {
-      // Load environment config first
-      await this.environmentConfigLoader.ensureLoaded();
+      // Load environment profile first
+      const profile = await this.environment.ensureLoaded();
 
-      // Update outreach config loader with environment config
-      const envConfig = this.environmentConfigLoader.config;
-      if (envConfig?.outreach?.configPath) {
-        this.outreachConfigLoader = new ConfigLoader<any>(
-          envConfig.outreach.configPath,
-          this.http,
-          envConfig,
-          true
-        );
-      }
+      this.defaultCachePolicy = {
+        ttlMs: profile.cache.ttlMs,
+        staleWhileRevalidate: profile.cache.staleWhileRevalidate
+      };
+      // Evicting down to the budget happens in the background; the cache logs its own failures
+      this.persistentCache.setBudget(profile.cache.persistentBudgetBytes).catch(() => {/* silent */});
+
+      this.outreachConfigLoader = new ConfigLoader<any>(
+        profile.outreach.configPath,
+        this.http,
+        targetUrl => this.environment.buildProxyUrl(targetUrl),
+        true
+      );
 
       // Load outreach config
       await this.outreachConfigLoader.ensureLoaded();
+      this.startOutreachConfigPolling(profile.outreach.reloadIntervalMs);
+
+      if (!profile.features.cvPrefetch) {
+        return;
+      }
 
       // Start non-blocking prefetch of the CV PDF (if configured).
       // Use an async IIFE to keep the call scoped and to allow best-effort gating
@@ -292,6 +682,9 @@ export class DataLoadingService {
     try {
       if (this.cvPrefetched) return;
 
+      // Let above-the-fold data finish first; the blob itself is queued as background work
+      await this.scheduler.whenCriticalSettled();
+
       // Read skills config which contains the CV metadata
       // Use the public API so caching/deduping and external overrides are respected
       const skills = await this.getData<any>('assets/data/skills.json').catch(() => null);
@@ -306,7 +699,7 @@ export class DataLoadingService {
       // Request the blob via getBlob: this will use external override if present
       // We don't await strongly; wait briefly so cache fills before user clicks
       try {
-        await this.getBlob(cvUrl);
+        await this.getBlob(cvUrl, { priority: 'background' });
         this.cvPrefetched = true;
         console.log('CV prefetch: success', cvUrl);
       } catch (err) {
@@ -322,6 +715,117 @@ export class DataLoadingService {
   // REFLEXIVE CONFIGURATION MANAGEMENT
   // ==========================================
 
+  /**
+   * Fetch outreachConfig.json again and invalidate only the paths whose source chain changed.
+   * Invalidated entries keep being served while their new sources are fetched in the background,
+   * so open views pick up the change through dataUpdated$ and resource updates.
+   * Concurrent calls share the same reload.
+   */
+  reloadOutreachConfig(): Promise<OutreachConfigReloadResult> {
+    if (!this.configReloadPromise) {
+      this.configReloadPromise = this.performConfigReload().finally(() => {
+        this.configReloadPromise = null;
+      });
+    }
+    return this.configReloadPromise;
+  }
+
+  /**
+   * Reload the outreach config periodically (skipped while the tab is hidden)
+   * @param intervalMs Polling interval in milliseconds; 0 or less only stops polling
+   */
+  startOutreachConfigPolling(intervalMs: number): void {
+    this.stopOutreachConfigPolling();
+    if (!(intervalMs > 0)) {
+      return;
+    }
+
+    this.configPollTimer = setInterval(() => {
+      if (typeof document !== 'undefined' && document.hidden) {
+        return;
+      }
+      this.reloadOutreachConfig();
+    }, intervalMs);
+  }
+
+  /**
+   * Stop periodic outreach config reloads
+   */
+  stopOutreachConfigPolling(): void {
+    if (this.configPollTimer) {
+      clearInterval(this.configPollTimer);
+      this.configPollTimer = null;
+    }
+  }
+
+  private async performConfigReload(): Promise<OutreachConfigReloadResult> {
+    await this.ensureConfigLoaded();
+
+    const before = this.snapshotSourceChains();
+    const reloaded = await this.outreachConfigLoader.reload();
+    if (!reloaded) {
+      console.warn('Outreach config reload failed, keeping the current configuration');
+      return { reloaded: false, changedPaths: [] };
+    }
+
+    const after = this.snapshotSourceChains();
+    const changedPaths = [...new Set([...before.keys(), ...after.keys()])]
+      .filter(localUrl => before.get(localUrl) !== after.get(localUrl));
+
+    changedPaths.forEach(localUrl => this.invalidateForConfigChange(localUrl));
+    if (changedPaths.length > 0) {
+      console.log('Outreach config changed for:', changedPaths);
+    }
+
+    return { reloaded: true, changedPaths };
+  }
+
+  /**
+   * Serialized source chain of every path the outreach config mentions, keyed by local URL
+   */
+  private snapshotSourceChains(): Map<string, string> {
+    const snapshot = new Map<string, string>();
+    const outreachConfig = this.outreachConfigLoader.config;
+    if (!outreachConfig || typeof outreachConfig !== 'object') {
+      return snapshot;
+    }
+
+    for (const key of Object.keys(outreachConfig)) {
+      const localUrl = this.normalizeLocalUrl(key);
+      snapshot.set(localUrl, JSON.stringify(this.getSourceChain(localUrl)));
+    }
+    return snapshot;
+  }
+
+  /**
+   * Expire a path after its sources changed: cached data stays visible until the refresh lands
+   */
+  private invalidateForConfigChange(localUrl: string): void {
+    this.failures.delete(localUrl);
+    this.persistentCache.delete(localUrl);
+
+    const cached = this.cache.get(localUrl);
+    if (cached) {
+      cached.timestamp = 0;
+      this.revalidate(localUrl, cached.responseType);
+    }
+  }
+
+  /**
+   * Reload the outreach config when the service worker reports that it changed
+   */
+  private listenForConfigMessages(): void {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+      return;
+    }
+
+    navigator.serviceWorker.addEventListener('message', event => {
+      if (event.data?.type === OUTREACH_CONFIG_UPDATED_MESSAGE) {
+        this.reloadOutreachConfig();
+      }
+    });
+  }
+
   // ==========================================
   // UNIFIED PUBLIC API - Single Pattern
   // ==========================================
@@ -331,55 +835,125 @@ export class DataLoadingService {
    * @param path Local path to data file (e.g., 'assets/data/portfolio.json')
    *           Can be overridden by outreachConfig.json for external sources
    * @param responseType Expected response type (defaults to 'json')
+   * @param options Priority and cancellation (AbortSignal)
    * @returns Promise with properly typed response data
    */
-  async getData<T = any>(path: string, responseType: ResponseType = 'json'): Promise<T> {
+  async getData<T = any>(path: string, responseType: ResponseType = 'json', options: DataRequestOptions = {}): Promise<T> {
     const actualResponseType = responseType;
-    const isJsonResponse = actualResponseType === 'json';
     // Normalize path to local URL
     const localUrl = this.normalizeLocalUrl(path);
 
-    // Check cache first
-    if (this.cache.has(localUrl)) {
-      const cached = this.cache.get(localUrl);
-      if (cached !== undefined && cached.responseType === actualResponseType) {
-        // Handle Blob objects specially - don't use spread operator as it breaks them
-        return cached.data instanceof Blob ? cached.data as T : { ...cached.data } as T;
+    // Check cache first (memory, then the persistent tier)
+    const cached = this.cache.get(localUrl) ?? await this.restorePersisted(localUrl, actualResponseType);
+    if (cached && cached.responseType === actualResponseType) {
+      if (this.isFresh(localUrl, cached)) {
+        this.reportCompleted(localUrl, cached.source, cached.data, options.onProgress);
+        return this.toResult<T>(cached.data);
       }
-      // Cached as undefined or different response type = error occurred, don't retry
-      if (cached === undefined) {
-        throw new DataLoadError(`Failed to load data for ${path} (previously failed)`, 'DataLoadError', path);
+      // Stale entry: serve it now and refresh in the background if the policy allows
+      if (this.getCachePolicy(localUrl).staleWhileRevalidate) {
+        this.revalidate(localUrl, actualResponseType);
+        this.reportCompleted(localUrl, cached.source, cached.data, options.onProgress);
+        return this.toResult<T>(cached.data);
       }
     }
 
-    // Check if request is already in progress
-    if (this.pendingRequests.has(localUrl)) {
-      return this.pendingRequests.get(localUrl)!;
+    // Recently failed: rethrow until the negative cache entry expires
+    const failure = this.failures.get(localUrl);
+    if (failure) {
+      if (Date.now() - failure.timestamp < this.getRetryPolicy(localUrl).negativeCacheTtlMs) {
+        throw failure.error;
+      }
+      this.failures.delete(localUrl);
     }
 
-    // Create and cache the request
-    const requestPromise = this.performDataLoad(localUrl, actualResponseType);
-    // Store promise that resolves to the data, not the result object
-    const dataPromise = requestPromise.then(result => result.data);
-    this.pendingRequests.set(localUrl, dataPromise);
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
 
-    try {
-      const result = await requestPromise;
-      const cacheEntry: DataCacheEntry = {
-        data: result.data,
-        timestamp: Date.now(),
-        source: result.source,
-        responseType: actualResponseType
-      };
-      this.cache.set(localUrl, cacheEntry);
-      // Handle Blob objects specially - don't use spread operator as it breaks them
-      return result.data instanceof Blob ? result.data as T : { ...result.data } as T;
-    } catch (error) {
-      // Cache undefined to prevent retrying failed requests
-      this.cache.set(localUrl, undefined);
-      throw error;
-    } finally {
-      this.pendingRequests.delete(localUrl);
+    // Join the request already in progress, or queue a new one
+    // (a stale entry of the same type lets the external leg send a conditional request)
+    const priority = options.priority ?? (actualResponseType === 'json' ? 'critical' : 'normal');
+    let pending = this.pendingRequests.get(localUrl);
+    if (pending) {
+      // A foreground caller joining a queued prefetch shouldn't wait behind it
+      this.scheduler.promote(pending.controller, priority);
+    } else {
+      const previous = cached && cached.responseType === actualResponseType ? cached : undefined;
+      pending = this.startLoad(path, localUrl, actualResponseType, priority, previous);
+    }
+
+    return this.toResult<T>(await this.awaitPending(pending, options));
+  }
+
+  /**
+   * Get the shared reactive resource for a path.
+   * Loading starts on load() or on the first Observable subscription.
+   * @param path Local path to data file (e.g., 'assets/data/skills.json')
+   * @param responseType Expected response type (defaults to 'json')
+   * @returns Resource exposing value/status/error/source signals, state$/value$ and reload()
+   */
+  resource<T = any>(path: string, responseType: ResponseType = 'json'): DataResource<T> {
+    const localUrl = this.normalizeLocalUrl(path);
+    const key = `${responseType}:${localUrl}`;
+
+    let resource = this.resources.get(key);
+    if (!resource) {
+      resource = new DataResourceRef<T>({
+        fetch: () => this.getData<T>(localUrl, responseType),
+        invalidate: () => this.clearCache(localUrl),
+        sourceOf: () => this.cache.get(localUrl)?.source ?? null,
+        updates: this.onDataUpdated<T>(localUrl)
+      });
+      this.resources.set(key, resource);
+    }
+    return resource;
+  }
+
+  /**
+   * Observe fresher data for a path once a background refresh completes
+   * @param path Local path to data file (same form as passed to getData)
+   * @returns Observable emitting the refreshed data for that path only
+   */
+  onDataUpdated<T = any>(path: string): Observable<T> {
+    const localUrl = this.normalizeLocalUrl(path);
+    return this.dataUpdated$.pipe(
+      filter(event => event.path === localUrl),
+      map(event => this.toResult<T>(event.data))
+    );
+  }
+
+  /**
+   * Set the cache policy for a path (merged over the default policy)
+   * @param path Local path to data file
+   * @param policy TTL and stale-while-revalidate settings
+   */
+  setCachePolicy(path: string, policy: Partial<CachePolicy>): void {
+    const localUrl = this.normalizeLocalUrl(path);
+    this.cachePolicies.set(localUrl, { ...this.defaultCachePolicy, ...policy });
+  }
+
+  /**
+   * Register a validator for a path's JSON payload.
+   * External payloads that fail validation fall back to the local asset.
+   * @param path Local path to data file
+   * @param validator Typed validator for the payload
+   */
+  registerValidator<T>(path: string, validator: DataValidator<T>): void {
+    this.validators.set(this.normalizeLocalUrl(path), validator);
+  }
+
+  /**
+   * Set the retry policy for a path, or the default for all paths when no path is given
+   * @param policy Backoff, attempt and negative-cache settings (merged over the current default)
+   * @param path Optional local path to data file
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>, path?: string): void {
+    if (path) {
+      const localUrl = this.normalizeLocalUrl(path);
+      this.retryPolicies.set(localUrl, { ...this.getRetryPolicy(localUrl), ...policy });
+    } else {
+      this.defaultRetryPolicy = { ...this.defaultRetryPolicy, ...policy };
     }
   }
 
@@ -390,38 +964,139 @@ export class DataLoadingService {
   /**
    * Get text content from a file
    * @param path Local path to text file
+   * @param options Priority and cancellation
    * @returns Promise with text content
    */
-  async getText(path: string): Promise<string> {
-    return this.getData(path, 'text');
+  async getText(path: string, options?: DataRequestOptions): Promise<string> {
+    return this.getData(path, 'text', options);
   }
 
   /**
    * Get binary data as Blob from a file
    * @param path Local path to file
+   * @param options Priority and cancellation
    * @returns Promise with Blob data
    */
-  async getBlob(path: string): Promise<Blob> {
-    return this.getData(path, 'blob');
+  async getBlob(path: string, options?: DataRequestOptions): Promise<Blob> {
+    return this.getData(path, 'blob', options);
   }
 
   /**
    * Get binary data as ArrayBuffer from a file
    * @param path Local path to file
+   * @param options Priority and cancellation
    * @returns Promise with ArrayBuffer data
    */
-  async getArrayBuffer(path: string): Promise<ArrayBuffer> {
-    return this.getData(path, 'arraybuffer');
+  async getArrayBuffer(path: string, options?: DataRequestOptions): Promise<ArrayBuffer> {
+    return this.getData(path, 'arraybuffer', options);
   }
 
   // ==========================================
   // PRIVATE IMPLEMENTATION
   // ==========================================
 
+  /**
+   * Queue a shared load for a path and register it as pending until it settles
+   */
+  private startLoad(path: string, localUrl: string, responseType: ResponseType, priority: RequestPriority, previous?: DataCacheEntry): PendingLoad {
+    const controller = new AbortController();
+    const context: LoadContext = {
+      signal: controller.signal,
+      onProgress: (source, loaded, total) => {
+        const event: DataProgressEvent = { path: localUrl, source, loaded, total };
+        pending.lastProgress = event;
+        pending.progressListeners.forEach(listener => listener(event));
+      }
+    };
+
+    const promise = this.scheduler
+      .schedule(priority, () => this.performDataLoad(localUrl, responseType, previous, context), controller.signal, controller)
+      .then(result => {
+        const entry = this.storeEntry(localUrl, result, responseType);
+        this.publishUpdate(localUrl, entry, previous, result.notModified);
+        pending.progressListeners.forEach(listener => this.reportCompleted(localUrl, result.source, result.data, listener));
+        return result.data;
+      })
+      .catch(error => {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        // Offline or every source down: an expired entry is still better than an error
+        if (previous) {
+          console.warn(`Load failed for ${localUrl}, serving cached data from ${new Date(previous.fetchedAt ?? previous.timestamp).toISOString()}`);
+          return previous.data;
+        }
+        // Remember the failure so callers don't hammer a broken source, until the negative TTL expires
+        const loadError = error instanceof DataLoadError
+          ? error
+          : new DataLoadError(`Failed to load data for ${path}`, 'DataLoadError', localUrl, error instanceof Error ? error : undefined);
+        this.failures.set(localUrl, { error: loadError, timestamp: Date.now() });
+        throw loadError;
+      })
+      .finally(() => {
+        if (this.pendingRequests.get(localUrl) === pending) {
+          this.pendingRequests.delete(localUrl);
+        }
+      });
+
+    const pending: PendingLoad = { promise, controller, cancellableWaiters: 0, pinned: false, progressListeners: new Set() };
+    this.pendingRequests.set(localUrl, pending);
+    return pending;
+  }
+
+  /**
+   * Wait for a shared load on behalf of one caller.
+   * Aborting rejects this caller only; the load itself is aborted when no caller is left.
+   */
+  private awaitPending(pending: PendingLoad, options: DataRequestOptions): Promise<any> {
+    const { signal, onProgress } = options;
+    if (onProgress) {
+      pending.progressListeners.add(onProgress);
+      if (pending.lastProgress) {
+        onProgress(pending.lastProgress);
+      }
+      pending.promise.catch(() => {/* reported to the caller below */}).finally(() => pending.progressListeners.delete(onProgress));
+    }
+
+    if (!signal) {
+      pending.pinned = true;
+      return pending.promise;
+    }
+
+    pending.cancellableWaiters++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        pending.cancellableWaiters--;
+        if (pending.cancellableWaiters === 0 && !pending.pinned) {
+          pending.controller.abort();
+        }
+        reject(createAbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      pending.promise
+        .finally(() => signal.removeEventListener('abort', onAbort))
+        .then(resolve, reject);
+    });
+  }
+
+  /**
+   * Emit a final progress event for binary data that is already complete (cache hit or finished load)
+   */
+  private reportCompleted(localUrl: string, source: DataSourceLeg, data: unknown, onProgress?: (event: DataProgressEvent) => void): void {
+    if (!onProgress) {
+      return;
+    }
+    const size = data instanceof Blob ? data.size : data instanceof ArrayBuffer ? data.byteLength : null;
+    if (size !== null) {
+      onProgress({ path: localUrl, source, loaded: size, total: size });
+    }
+  }
+
   /**
    * Perform the actual data loading with fallback logic
    */
-  private async performDataLoad(localUrl: string, responseType: ResponseType): Promise<{ data: any; source: 'local' | 'external' }> {
+  private async performDataLoad(localUrl: string, responseType: ResponseType, previous?: DataCacheEntry, context: LoadContext = {}): Promise<LoadResult> {
+    const { signal } = context;
     // 🧪 TESTING DELAY: Add artificial delay for loading component demonstration
     if (this.TESTING_DELAY_MS > 0) {
       console.log(`🧪 Testing delay: Waiting ${this.TESTING_DELAY_MS}ms before loading ${localUrl}`);
@@ -432,32 +1107,373 @@ export class DataLoadingService {
     // Ensure config is loaded
     await this.ensureConfigLoaded();
 
-    // Try external source first (if configured)
-    const externalUrl = this.getExternalUrl(localUrl);
-    if (externalUrl) {
+    const retryPolicy = this.getRetryPolicy(localUrl);
+
+    // Walk the configured source chain (external overrides, then the local asset unless placed elsewhere)
+    const failures: SourceFailure[] = [];
+
+    for (const step of this.getSourceChain(localUrl)) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
       try {
-        const data = await this.fetchExternalData(externalUrl, responseType);
-        if (data !== undefined && data !== null) {
-          return { data: data, source: 'external' as const };
-        }
+        return step.leg === 'external'
+          ? await this.loadFromExternal(localUrl, step, responseType, retryPolicy, previous, context)
+          : await this.loadFromLocal(localUrl, step, responseType, retryPolicy, context);
       } catch (error) {
-        console.warn(`External fetch failed for ${localUrl}, trying local fallback`);
-        // Continue to local fallback
+        if (signal?.aborted) {
+          throw createAbortError();
+        }
+        failures.push(error as SourceFailure);
+        if (step.leg === 'external') {
+          console.warn(`External fetch failed for ${localUrl} from ${step.url}, trying next source`);
+        }
       }
     }
 
-    // Fallback to local source
+    // A single source reports its own error; a chain reports every source it tried
+    throw failures.length === 1 ? failures[0] : new SourceChainError(localUrl, failures);
+  }
+
+  /**
+   * Load one external source of the chain through the proxy.
+   * Sends cache validators when the previous entry was served by the same source.
+   */
+  private async loadFromExternal(
+    localUrl: string,
+    step: DataSourceStep,
+    responseType: ResponseType,
+    retryPolicy: RetryPolicy,
+    previous?: DataCacheEntry,
+    context: LoadContext = {}
+  ): Promise<LoadResult> {
+    let attempts = 0;
+    const validators: CacheValidators | undefined = previous?.source === 'external' && previous.servedBy === step.url
+      ? { etag: previous.etag, lastModified: previous.lastModified }
+      : undefined;
+
     try {
-  const data = await firstValueFrom(this.http.get<any>(localUrl, { responseType: responseType as any }));
+      const sourceType = step.responseType ?? responseType;
+      const response = await this.withRetry(() => {
+        attempts++;
+        return this.fetchExternalData(step.url, sourceType, validators, step.timeoutMs, context, !step.direct);
+      }, retryPolicy, context.signal);
+
+      // Unchanged remote document: keep the cached payload
+      if (response.notModified && previous) {
+        return {
+          data: previous.data,
+          source: 'external' as const,
+          servedBy: step.url,
+          hash: previous.hash,
+          etag: response.etag ?? previous.etag,
+          lastModified: response.lastModified ?? previous.lastModified,
+          fetchedAt: response.fetchedAt,
+          notModified: true
+        };
+      }
+
+      const data = await this.coerceResponse(response.data, sourceType, responseType);
       if (data !== undefined && data !== null) {
-        return { data, source: 'local' as const };
+        this.validatePayload(localUrl, 'external', data, responseType);
+        return {
+          data: data,
+          source: 'external' as const,
+          servedBy: step.url,
+          hash: await this.computeContentHash(data),
+          etag: response.etag,
+          lastModified: response.lastModified,
+          fetchedAt: response.fetchedAt
+        };
       }
-      throw new Error('Local data is null or undefined');
+      throw new Error('External data is null or undefined');
     } catch (error) {
-      throw new DataLoadError(`Failed to load data for ${localUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'DataLoadError', localUrl, error instanceof Error ? error : undefined);
+      if (error instanceof DataValidationError) {
+        throw error;
+      }
+      throw new ExternalSourceError(localUrl, step.url, error instanceof Error ? error : undefined, attempts);
+    }
+  }
+
+  /**
+   * Load the bundled local asset
+   */
+  private async loadFromLocal(
+    localUrl: string,
+    step: DataSourceStep,
+    responseType: ResponseType,
+    retryPolicy: RetryPolicy,
+    context: LoadContext = {}
+  ): Promise<LoadResult> {
+    let attempts = 0;
+    try {
+      const sourceType = step.responseType ?? responseType;
+      const response = await this.withRetry(async () => {
+        attempts++;
+        const response = await this.request(localUrl, sourceType, 'local', context, step.timeoutMs);
+        if (response.body === undefined || response.body === null) {
+          throw new Error('Local data is null or undefined');
+        }
+        return response;
+      }, retryPolicy, context.signal);
+      const data = await this.coerceResponse(response.body, sourceType, responseType);
+      this.validatePayload(localUrl, 'local', data, responseType);
+      return {
+        data,
+        source: 'local' as const,
+        servedBy: LOCAL_SOURCE,
+        hash: await this.computeContentHash(data),
+        fetchedAt: this.readResponseDate(response.headers)
+      };
+    } catch (error) {
+      if (error instanceof DataValidationError) {
+        throw error;
+      }
+      throw new LocalSourceError(localUrl, error instanceof Error ? error : undefined, attempts);
+    }
+  }
+
+  /**
+   * Convert a payload fetched with a source's response-type hint into the type the caller asked for
+   */
+  private async coerceResponse(data: any, from: ResponseType, to: ResponseType): Promise<any> {
+    if (from === to || data === undefined || data === null) {
+      return data;
+    }
+
+    // Normalize to text or bytes first
+    let text: string | null = null;
+    if (typeof data === 'string') {
+      text = data;
+    } else if (data instanceof Blob) {
+      text = to === 'arraybuffer' || to === 'blob' ? null : await data.text();
+    } else if (data instanceof ArrayBuffer) {
+      text = to === 'arraybuffer' || to === 'blob' ? null : new TextDecoder().decode(data);
+    } else {
+      text = JSON.stringify(data);
+    }
+
+    switch (to) {
+      case 'json':
+        return JSON.parse(text ?? '');
+      case 'text':
+        return text;
+      case 'blob':
+        return data instanceof Blob ? data : new Blob([data instanceof ArrayBuffer ? data : (text ?? '')]);
+      case 'arraybuffer':
+        if (data instanceof ArrayBuffer) return data;
+        if (data instanceof Blob) return data.arrayBuffer();
+        return new TextEncoder().encode(text ?? '').buffer;
     }
   }
 
+  /**
+   * Run an operation with exponential backoff according to the retry policy.
+   * Client errors (4xx other than 408/429) are not retried since repeating them cannot help.
+   */
+  private async withRetry<R>(operation: () => Promise<R>, policy: RetryPolicy, signal?: AbortSignal): Promise<R> {
+    let delay = policy.baseDelayMs;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (attempt >= policy.maxAttempts || !this.isRetryable(error) || signal?.aborted) {
+          throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay = Math.min(delay * policy.backoffFactor, policy.maxDelayMs);
+      }
+    }
+  }
+
+  /**
+   * Run the registered validator (if any) against a JSON payload
+   */
+  private validatePayload(localUrl: string, leg: DataSourceLeg, data: unknown, responseType: ResponseType): void {
+    const validator = this.validators.get(localUrl);
+    if (!validator || responseType !== 'json') {
+      return;
+    }
+
+    const issues = validator.validate(data);
+    if (issues.length > 0) {
+      throw new DataValidationError(localUrl, leg, issues);
+    }
+  }
+
+  /**
+   * Decide whether a failed attempt is worth repeating
+   */
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof DataValidationError || isAbortError(error)) {
+      return false;
+    }
+    if (error instanceof HttpErrorResponse) {
+      return error.status === 0 || error.status === 408 || error.status === 429 || error.status >= 500;
+    }
+    return true;
+  }
+
+  /**
+   * Resolve the retry policy for a local URL
+   */
+  private getRetryPolicy(localUrl: string): RetryPolicy {
+    return this.retryPolicies.get(localUrl) ?? this.defaultRetryPolicy;
+  }
+
+  /**
+   * Refresh a stale entry without blocking the caller.
+   * On success the cache is replaced and dataUpdated$ emits; on failure the stale entry is kept.
+   */
+  private revalidate(localUrl: string, responseType: ResponseType): void {
+    if (this.pendingRefreshes.has(localUrl) || this.pendingRequests.has(localUrl)) {
+      return;
+    }
+
+    this.pendingRefreshes.add(localUrl);
+    const previous = this.cache.get(localUrl);
+    this.scheduler.schedule('background', () => this.performDataLoad(localUrl, responseType, previous))
+      .then(result => {
+        const entry = this.storeEntry(localUrl, result, responseType);
+        this.publishUpdate(localUrl, entry, previous, result.notModified);
+      })
+      .catch(error => {
+        console.warn(`Background refresh failed for ${localUrl}, keeping stale data:`, error);
+      })
+      .finally(() => {
+        this.pendingRefreshes.delete(localUrl);
+      });
+  }
+
+  /**
+   * Notify consumers that a previously cached entry was replaced.
+   * Nothing is emitted on first load, on 304 or when the content hash is unchanged.
+   */
+  private publishUpdate(localUrl: string, entry: DataCacheEntry, previous: DataCacheEntry | undefined, notModified?: boolean): void {
+    if (!previous || notModified || (previous.hash && previous.hash === entry.hash)) {
+      return;
+    }
+
+    this.dataUpdatedSubject.next({
+      path: localUrl,
+      data: entry.data,
+      source: entry.source,
+      timestamp: entry.timestamp,
+      servedBy: entry.servedBy,
+      hash: entry.hash,
+      previousHash: previous.hash
+    });
+  }
+
+  /**
+   * Hash a payload (SHA-256 where SubtleCrypto is available, FNV-1a otherwise)
+   */
+  private async computeContentHash(data: any): Promise<string | undefined> {
+    try {
+      let bytes: Uint8Array;
+      if (data instanceof Blob) {
+        bytes = new Uint8Array(await data.arrayBuffer());
+      } else if (data instanceof ArrayBuffer) {
+        bytes = new Uint8Array(data);
+      } else {
+        bytes = new TextEncoder().encode(typeof data === 'string' ? data : JSON.stringify(data));
+      }
+
+      if (typeof crypto !== 'undefined' && crypto.subtle) {
+        const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+        return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+      }
+
+      // Insecure contexts (plain http on a LAN host) have no SubtleCrypto
+      let hash = 0x811c9dc5;
+      for (const byte of bytes) {
+        hash = Math.imul(hash ^ byte, 0x01000193);
+      }
+      return `fnv1a-${(hash >>> 0).toString(16)}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a successful load result into the memory cache and the persistent tier
+   */
+  private storeEntry(localUrl: string, result: LoadResult, responseType: ResponseType): DataCacheEntry {
+    const cacheEntry: DataCacheEntry = {
+      data: result.data,
+      timestamp: Date.now(),
+      source: result.source,
+      responseType,
+      servedBy: result.servedBy,
+      hash: result.hash,
+      etag: result.etag,
+      lastModified: result.lastModified,
+      fetchedAt: result.fetchedAt ?? Date.now()
+    };
+    this.cache.set(localUrl, cacheEntry);
+    // Persisting is best-effort and must never delay the caller
+    if (this.environment.isEnabled('persistentCache')) {
+      this.persistentCache.put({ key: localUrl, ...cacheEntry });
+    }
+    return cacheEntry;
+  }
+
+  /**
+   * Promote a persisted entry into the memory cache, keeping its original timestamp
+   * so the TTL still reflects when the data was actually fetched
+   */
+  private async restorePersisted(localUrl: string, responseType: ResponseType): Promise<DataCacheEntry | undefined> {
+    if (!this.environment.isEnabled('persistentCache')) {
+      return undefined;
+    }
+
+    const record = await this.persistentCache.get(localUrl);
+    if (!record || record.responseType !== responseType) {
+      return undefined;
+    }
+
+    const cacheEntry: DataCacheEntry = {
+      data: record.data,
+      timestamp: record.timestamp,
+      source: record.source,
+      responseType: record.responseType,
+      servedBy: record.servedBy,
+      hash: record.hash,
+      etag: record.etag,
+      lastModified: record.lastModified,
+      fetchedAt: record.fetchedAt
+    };
+    this.cache.set(localUrl, cacheEntry);
+    return cacheEntry;
+  }
+
+  /**
+   * Check whether a cache entry is still within its TTL
+   */
+  private isFresh(localUrl: string, entry: DataCacheEntry): boolean {
+    return Date.now() - entry.timestamp < this.getCachePolicy(localUrl).ttlMs;
+  }
+
+  /**
+   * Resolve the cache policy for a local URL
+   */
+  private getCachePolicy(localUrl: string): CachePolicy {
+    return this.cachePolicies.get(localUrl) ?? this.defaultCachePolicy;
+  }
+
+  /**
+   * Hand cached data to callers without exposing the cached object itself.
+   * Binary payloads and primitives are returned as-is; spreading would break them.
+   */
+  private toResult<T>(data: any): T {
+    if (data instanceof Blob || data instanceof ArrayBuffer || data === null || typeof data !== 'object') {
+      return data as T;
+    }
+    return (Array.isArray(data) ? [...data] : { ...data }) as T;
+  }
+
   /**
    * Normalize endpoint to local URL
    */
@@ -472,21 +1488,57 @@ export class DataLoadingService {
   }
 
   /**
-   * Get external URL from outreach config (if exists)
-   * This allows overriding local paths with external sources
+   * Resolve the ordered source chain for a local URL from the outreach config.
+   * Without an override the chain is just the local asset; the local asset is
+   * appended when the configured chain doesn't place it explicitly.
+   * With the content API enabled, configured data files try their backend route first.
    */
-  private getExternalUrl(localUrl: string): string | null {
+  private getSourceChain(localUrl: string): DataSourceStep[] {
+    const localStep: DataSourceStep = { leg: 'local', url: LOCAL_SOURCE };
     const outreachConfig = this.outreachConfigLoader.config;
     if (!outreachConfig) {
-      return null;
+      return [localStep];
     }
 
     // Try both formats: with and without leading slash
     const override1 = outreachConfig[localUrl];
     const override2 = outreachConfig[localUrl.startsWith('/') ? localUrl.substring(1) : `/${localUrl}`];
+    const entry: OutreachEntry | undefined = override1 || override2;
+    if (!entry) {
+      return [localStep];
+    }
+
+    const steps = (Array.isArray(entry) ? entry : [entry])
+      .map(source => this.toSourceStep(source))
+      .filter((step): step is DataSourceStep => step !== null);
+
+    const route = CONTENT_API_ROUTES[localUrl];
+    const apiUrl = route ? this.environment.buildContentApiUrl(route) : null;
+    if (apiUrl) {
+      steps.unshift({ leg: 'external', url: apiUrl, direct: true });
+    }
 
-    const override = override1 || override2;
-    return (override && typeof override === 'string') ? override : null;
+    return steps.some(step => step.leg === 'local') ? steps : [...steps, localStep];
+  }
+
+  /**
+   * Normalize one outreach config source (string or object) into a chain step
+   */
+  private toSourceStep(source: string | OutreachSourceConfig): DataSourceStep | null {
+    const config: OutreachSourceConfig | null = typeof source === 'string'
+      ? { url: source }
+      : (source && typeof source === 'object' && typeof source.url === 'string' ? source : null);
+
+    if (!config || !config.url.trim()) {
+      return null;
+    }
+
+    return {
+      leg: config.url === LOCAL_SOURCE ? 'local' : 'external',
+      url: config.url,
+      timeoutMs: typeof config.timeoutMs === 'number' ? config.timeoutMs : undefined,
+      responseType: config.responseType
+    };
   }
 
   /**
@@ -498,21 +1550,45 @@ export class DataLoadingService {
       // Clear cache for specific path
       const localUrl = this.normalizeLocalUrl(path);
       this.cache.delete(localUrl);
+      this.failures.delete(localUrl);
       this.pendingRequests.delete(localUrl);
+      this.persistentCache.delete(localUrl);
     } else {
       // Clear all caches
       this.cache.clear();
+      this.failures.clear();
       this.pendingRequests.clear();
+      this.persistentCache.delete();
     }
   }
 
+  /**
+   * When the oldest cached JSON content was produced by its origin, or null when nothing is cached.
+   * While offline this tells how out of date the displayed content may be.
+   */
+  getOldestContentTimestamp(): number | null {
+    let oldest: number | null = null;
+    this.cache.forEach(entry => {
+      if (entry.responseType !== 'json') return;
+      const fetchedAt = entry.fetchedAt ?? entry.timestamp;
+      if (oldest === null || fetchedAt < oldest) {
+        oldest = fetchedAt;
+      }
+    });
+    return oldest;
+  }
+
   /**
    * Get cache statistics for monitoring
    */
-  getCacheStats(): { entries: number, pending: number } {
+  getCacheStats(): { entries: number, failures: number, pending: number, refreshing: number, queued: number, persistent: PersistentCacheStats } {
     return {
       entries: this.cache.size,
-      pending: this.pendingRequests.size
+      failures: this.failures.size,
+      pending: this.pendingRequests.size,
+      refreshing: this.pendingRefreshes.size,
+      queued: this.scheduler.getStats().queued,
+      persistent: this.persistentCache.getStats()
     };
   }
 
@@ -528,16 +1604,18 @@ export class DataLoadingService {
   }
 
   /**
-   * Ensure environment config is loaded before resolving endpoint
+   * Fetch data using proxy server approach for external URLs.
+   * When validators are given the request is conditional and may come back as not modified.
+   * @param viaProxy false for URLs the browser may request directly (the backend content API)
    */
-  private async ensureEnvironmentConfigLoaded(): Promise<void> {
-    await this.environmentConfigLoader.ensureLoaded();
-  }
-
-  /**
-   * Fetch data using proxy server approach for external URLs
-   */
-  private async fetchExternalData(url: string, responseType: ResponseType): Promise<any> {
+  private async fetchExternalData(
+    url: string,
+    responseType: ResponseType,
+    validators?: CacheValidators,
+    timeoutMs?: number,
+    context: LoadContext = {},
+    viaProxy = true
+  ): Promise<ExternalFetchResult> {
     // Validate URL before sending to proxy
     if (!url || typeof url !== 'string') {
       throw new Error('Invalid URL provided to fetchExternalData');
@@ -548,34 +1626,30 @@ export class DataLoadingService {
       throw new Error('Empty URL provided');
     }
 
-    // If URL doesn't start with http/https, it's probably a local path that got misrouted
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
+    // Adapter URLs (github://, s3://, ...) only mean something to the backend proxy;
+    // anything else without http/https is probably a local path that got misrouted
+    const isHttpUrl = url.startsWith('http://') || url.startsWith('https://');
+    if (!isHttpUrl && !(viaProxy && ADAPTER_SCHEME_PATTERN.test(url))) {
       throw new Error(`Non-HTTP URL received: ${url}`);
     }
 
-    try {
-      // Ensure environment config is loaded
-      await this.ensureEnvironmentConfigLoaded();
-
-      // Build proxy URL from environment config
-      const envConfig = this.environmentConfigLoader.config;
-      const proxyBaseUrl = envConfig?.proxy?.baseUrl || 'http://localhost:3001';
-      const proxyEndpoint = envConfig?.proxy?.endpoint || '/proxy';
-      const proxyUrl = `${proxyBaseUrl}${proxyEndpoint}?url=${encodeURIComponent(url)}`;
+    // Ensure the environment profile is loaded before resolving the proxy endpoint
+    await this.environment.ensureLoaded();
+    const proxyUrl = viaProxy ? this.environment.buildProxyUrl(url) : url;
 
+    try {
       // Handle different response types
-      if (responseType === 'blob') {
-  const blobResponse = await firstValueFrom(this.http.get(proxyUrl, { responseType: 'blob' as any }));
-        return blobResponse;
-      }
-
-      if (responseType === 'arraybuffer') {
-  const arrayBufferResponse = await firstValueFrom(this.http.get(proxyUrl, { responseType: 'arraybuffer' as any }));
-        return arrayBufferResponse;
+      if (responseType === 'blob' || responseType === 'arraybuffer') {
+        return await this.requestViaProxy(proxyUrl, responseType, validators, timeoutMs, context);
       }
 
       // For text and json, get as text first
-      const rawResponse = await firstValueFrom(this.http.get(proxyUrl, { responseType: 'text' as any }));
+      const textResult = await this.requestViaProxy(proxyUrl, 'text', validators, timeoutMs, context);
+      if (textResult.notModified) {
+        return textResult;
+      }
+      const rawResponse = textResult.data;
+      const withData = (data: any): ExternalFetchResult => ({ ...textResult, data });
 
       // Normalize response to string for parsing and text operations
       let textResponse: string;
@@ -616,55 +1690,114 @@ export class DataLoadingService {
 
       // Handle based on response type
       if (responseType === 'text') {
-        return textResponse;
+        return withData(textResponse);
       }
 
-      // For JSON, try to parse
+      // For JSON, parse strictly: the proxy resolves Drive confirmation pages itself,
+      // so an HTML page here is an error, not a document to dig JSON out of
+      let jsonData: any;
       try {
-        const jsonData = JSON.parse(textResponse);
-        // Validate that we have a proper object structure
-        if (jsonData && typeof jsonData === 'object') {
-          return jsonData;
-        } else {
-          throw new Error('Invalid JSON structure');
-        }
+        jsonData = JSON.parse(textResponse);
       } catch (jsonError) {
-        // If it's HTML, try to extract JSON from it
-        if (textResponse.includes('<html') || textResponse.includes('<HTML')) {
-          const jsonMatch = textResponse.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            try {
-              const extractedJson = JSON.parse(jsonMatch[0]);
-              return extractedJson;
-            } catch (parseError) {
-              // If no JSON found in HTML, return the HTML as text
-              return textResponse;
-            }
-          }
-          // If no JSON found in HTML, return the HTML as text
-          return textResponse;
-        }
-
-        // For other text content, return as-is
-        return textResponse;
+        const looksLikeHtml = /^\s*</.test(textResponse);
+        throw new Error(looksLikeHtml ? 'Expected JSON but received an HTML page' : 'Response is not valid JSON');
       }
+      if (!jsonData || typeof jsonData !== 'object') {
+        throw new Error('Invalid JSON structure');
+      }
+      return withData(jsonData);
 
     } catch (proxyError: any) {
-      // Build proxy URL from environment config for error logging
-      const envConfig = this.environmentConfigLoader.config;
-      const proxyBaseUrl = envConfig?.proxy?.baseUrl || 'http://localhost:3001';
-      const proxyEndpoint = envConfig?.proxy?.endpoint || '/proxy';
-      const proxyUrl = `${proxyBaseUrl}${proxyEndpoint}?url=${encodeURIComponent(url)}`;
-
+      if (isAbortError(proxyError)) {
+        throw proxyError;
+      }
       console.error('Proxy request failed:', proxyError);
       console.error('Proxy error details:', {
         message: proxyError.message,
         status: proxyError.status,
         statusText: proxyError.statusText,
+        code: proxyError.error?.code,
         url: proxyUrl
       });
       // Always attempt fallback to local asset
       throw proxyError; // Re-throw to trigger fallback in calling code
     }
   }
+
+  /**
+   * GET through the proxy, sending cache validators and reading them back from the response.
+   * Angular reports 304 as an error, so it is translated into a not-modified result here.
+   */
+  private async requestViaProxy(
+    proxyUrl: string,
+    responseType: 'text' | 'blob' | 'arraybuffer',
+    validators?: CacheValidators,
+    timeoutMs?: number,
+    context: LoadContext = {}
+  ): Promise<ExternalFetchResult> {
+    let headers = new HttpHeaders();
+    if (validators?.etag) {
+      headers = headers.set('If-None-Match', validators.etag);
+    }
+    if (validators?.lastModified) {
+      headers = headers.set('If-Modified-Since', validators.lastModified);
+    }
+
+    const readValidators = (responseHeaders: HttpHeaders) => ({
+      etag: responseHeaders.get('ETag') ?? undefined,
+      lastModified: responseHeaders.get('Last-Modified') ?? undefined,
+      fetchedAt: this.readResponseDate(responseHeaders)
+    });
+
+    try {
+      const response = await this.request(proxyUrl, responseType, 'external', context, timeoutMs, headers);
+      return { data: response.body, notModified: false, ...readValidators(response.headers) };
+    } catch (error) {
+      if (error instanceof HttpErrorResponse && error.status === 304) {
+        return { notModified: true, ...readValidators(error.headers) };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a response's Date header into epoch milliseconds
+   */
+  private readResponseDate(headers: HttpHeaders): number | undefined {
+    const value = headers.get('Date');
+    const time = value ? Date.parse(value) : NaN;
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  /**
+   * GET a URL and resolve with the full response.
+   * Blob and arraybuffer requests report download progress when the context asks for it.
+   */
+  private request(
+    url: string,
+    responseType: ResponseType,
+    leg: DataSourceLeg,
+    context: LoadContext,
+    timeoutMs?: number,
+    headers?: HttpHeaders
+  ): Promise<HttpResponse<any>> {
+    const onProgress = context.onProgress;
+    const trackProgress = !!onProgress && (responseType === 'blob' || responseType === 'arraybuffer');
+
+    let request$: Observable<HttpResponse<any>> = trackProgress
+      ? (this.http.get(url, { headers, observe: 'events', reportProgress: true, responseType: responseType as any }) as Observable<HttpEvent<any>>).pipe(
+          tap(event => {
+            if (event.type === HttpEventType.DownloadProgress) {
+              onProgress(leg, event.loaded, event.total ?? null);
+            }
+          }),
+          filter((event): event is HttpResponse<any> => event.type === HttpEventType.Response)
+        )
+      : this.http.get(url, { headers, observe: 'response', responseType: responseType as any }) as Observable<HttpResponse<any>>;
+
+    if (timeoutMs) {
+      request$ = request$.pipe(timeout(timeoutMs));
+    }
+    return toAbortablePromise(request$, context.signal);
+  }
 }
@@ -0,0 +1,155 @@
+import { Signal, computed, signal } from '@angular/core';
+import { BehaviorSubject, Observable, defer } from 'rxjs';
+import { distinctUntilChanged, filter, map } from 'rxjs/operators';
+import type { DataLoadError, DataSourceLeg } from './data-loading.service';
+
+/**
+ * Lifecycle of a data resource
+ * - idle: nothing requested yet
+ * - loading: first load in flight
+ * - reloading: explicit reload in flight (previous value still available)
+ * - ready: value available
+ * - error: last load failed
+ */
+export type ResourceStatus = 'idle' | 'loading' | 'reloading' | 'ready' | 'error';
+
+/**
+ * Snapshot of a resource, as emitted by state$
+ */
+export interface DataResourceState<T> {
+  value: T | null;
+  status: ResourceStatus;
+  error: DataLoadError | null;
+  source: DataSourceLeg | null;
+}
+
+/**
+ * Reactive handle on a single data path, shared by every consumer of that path
+ */
+export interface DataResource<T> {
+  readonly value: Signal<T | null>;
+  readonly status: Signal<ResourceStatus>;
+  readonly error: Signal<DataLoadError | null>;
+  readonly source: Signal<DataSourceLeg | null>;
+  readonly isLoading: Signal<boolean>;
+
+  /** Full state stream; subscribing starts the first load, or retries after an error */
+  readonly state$: Observable<DataResourceState<T>>;
+  /** Non-null values only, including later background refreshes; subscribing starts the first load */
+  readonly value$: Observable<T>;
+
+  /** Start the first load (idempotent); rejects with the load error */
+  load(): Promise<T>;
+  /** Drop cached data and fetch again; rejects with the load error */
+  reload(): Promise<T>;
+}
+
+/**
+ * Operations a resource needs from DataLoadingService
+ */
+export interface DataResourceLoader<T> {
+  fetch(): Promise<T>;
+  invalidate(): void;
+  sourceOf(): DataSourceLeg | null;
+  updates: Observable<T>;
+}
+
+const INITIAL_STATE: DataResourceState<never> = {
+  value: null,
+  status: 'idle',
+  error: null,
+  source: null
+};
+
+/**
+ * Signal + Observable implementation of DataResource
+ */
+export class DataResourceRef<T> implements DataResource<T> {
+  private state = signal<DataResourceState<T>>(INITIAL_STATE);
+  private stateSubject = new BehaviorSubject<DataResourceState<T>>(INITIAL_STATE);
+  private inFlight: Promise<T> | null = null;
+
+  readonly value = computed(() => this.state().value);
+  readonly status = computed(() => this.state().status);
+  readonly error = computed(() => this.state().error);
+  readonly source = computed(() => this.state().source);
+  readonly isLoading = computed(() => {
+    const status = this.state().status;
+    return status === 'loading' || status === 'reloading';
+  });
+
+  readonly state$ = defer(() => {
+    this.start();
+    return this.stateSubject.asObservable();
+  });
+
+  readonly value$ = this.state$.pipe(
+    map(state => state.value),
+    filter((value): value is T => value !== null),
+    distinctUntilChanged()
+  );
+
+  constructor(private loader: DataResourceLoader<T>) {
+    // Background refreshes replace the value without going through a loading state
+    this.loader.updates.subscribe(value => {
+      this.patch({ value, status: 'ready', error: null, source: this.loader.sourceOf() });
+    });
+  }
+
+  load(): Promise<T> {
+    if (this.inFlight) {
+      return this.inFlight;
+    }
+    const current = this.state();
+    if (current.status === 'ready' && current.value !== null) {
+      return Promise.resolve(current.value);
+    }
+    return this.run(current.value === null ? 'loading' : 'reloading');
+  }
+
+  reload(): Promise<T> {
+    if (this.inFlight) {
+      return this.inFlight;
+    }
+    this.loader.invalidate();
+    return this.run(this.state().value === null ? 'loading' : 'reloading');
+  }
+
+  /**
+   * Fire-and-forget load for Observable subscribers: the first load, or a fresh attempt
+   * (past the failure cache) when subscribing again after an error. Errors are surfaced through state.
+   */
+  private start(): void {
+    const status = this.state().status;
+    if (status === 'idle') {
+      this.load().catch(() => {/* reported via error state */});
+    } else if (status === 'error') {
+      this.reload().catch(() => {/* reported via error state */});
+    }
+  }
+
+  private run(status: 'loading' | 'reloading'): Promise<T> {
+    this.patch({ status, error: null });
+
+    this.inFlight = this.loader.fetch()
+      .then(value => {
+        this.patch({ value, status: 'ready', error: null, source: this.loader.sourceOf() });
+        return value;
+      })
+      .catch(error => {
+        this.patch({ status: 'error', error: error as DataLoadError });
+        throw error;
+      })
+      .finally(() => {
+        this.inFlight = null;
+      });
+
+    return this.inFlight;
+  }
+
+  private patch(changes: Partial<DataResourceState<T>>): void {
+    const next = { ...this.state(), ...changes };
+    this.state.set(next);
+    this.stateSubject.next(next);
+  }
+}
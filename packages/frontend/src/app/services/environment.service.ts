@@ -0,0 +1,173 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import {
+  DEFAULT_ENVIRONMENT_PROFILE,
+  ENVIRONMENT_PROFILE_NAMES,
+  ENVIRONMENT_PROFILE_QUERY_PARAM,
+  EnvironmentConfig,
+  EnvironmentProfile,
+  EnvironmentProfileName,
+  EnvironmentProfileOverrides,
+  FeatureFlags
+} from '../models/environment-config';
+
+const ENVIRONMENT_CONFIG_PATH = '/assets/environment.json';
+
+/**
+ * Environment Service - single source of truth for the active deployment profile
+ *
+ * Profile selection order:
+ * 1. `?env=<profile>` query parameter
+ * 2. `hostnames` map in environment.json
+ * 3. `defaultProfile` in environment.json
+ * 4. 'dev' on localhost, 'production' elsewhere
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class EnvironmentService {
+  private http = inject(HttpClient);
+  private loadingPromise: Promise<EnvironmentProfile> | null = null;
+
+  readonly profileName = signal<EnvironmentProfileName>(this.fallbackProfileName());
+  readonly profile = signal<EnvironmentProfile>(DEFAULT_ENVIRONMENT_PROFILE);
+
+  /**
+   * Load environment.json once and resolve the active profile.
+   * Never rejects: a missing or broken file leaves the default profile in place.
+   */
+  ensureLoaded(): Promise<EnvironmentProfile> {
+    if (!this.loadingPromise) {
+      this.loadingPromise = this.loadProfile();
+    }
+    return this.loadingPromise;
+  }
+
+  /**
+   * Check a feature flag of the active profile
+   */
+  isEnabled(flag: keyof FeatureFlags): boolean {
+    return this.profile().features[flag];
+  }
+
+  /**
+   * Build the proxy URL for an external resource
+   */
+  buildProxyUrl(targetUrl: string): string {
+    const { baseUrl, endpoint } = this.profile().proxy;
+    return `${this.expandPlaceholders(baseUrl)}${endpoint}?url=${encodeURIComponent(targetUrl)}`;
+  }
+
+  /**
+   * Build the content API URL for a route name, or null when the API is disabled
+   */
+  buildContentApiUrl(route: string): string | null {
+    const { proxy, contentApi } = this.profile();
+    if (!contentApi.enabled) {
+      return null;
+    }
+    return `${this.expandPlaceholders(proxy.baseUrl)}${contentApi.endpoint}/${encodeURIComponent(route)}`;
+  }
+
+  /**
+   * Build the contact form endpoint URL, or null when the contact API is disabled
+   */
+  buildContactApiUrl(): string | null {
+    const { proxy, contactApi } = this.profile();
+    if (!contactApi.enabled) {
+      return null;
+    }
+    return `${this.expandPlaceholders(proxy.baseUrl)}${contactApi.endpoint}`;
+  }
+
+  // ==========================================
+  // PRIVATE IMPLEMENTATION
+  // ==========================================
+
+  private async loadProfile(): Promise<EnvironmentProfile> {
+    try {
+      const cacheBustUrl = `${ENVIRONMENT_CONFIG_PATH}?t=${Date.now()}`;
+      const raw = await firstValueFrom(this.http.get<any>(cacheBustUrl, { responseType: 'json' as const }));
+      const config = this.normalizeConfig(raw);
+
+      const name = this.selectProfileName(config);
+      const profile = this.mergeProfile(config.profiles[name] ?? {});
+
+      this.profileName.set(name);
+      this.profile.set(profile);
+    } catch (error) {
+      console.warn('Failed to load environment config, using default profile:', error);
+    }
+    return this.profile();
+  }
+
+  /**
+   * Accept the legacy flat format ({ proxy, outreach }) as overrides shared by every profile
+   */
+  private normalizeConfig(raw: any): EnvironmentConfig {
+    if (raw && typeof raw === 'object' && raw.profiles && typeof raw.profiles === 'object') {
+      return raw as EnvironmentConfig;
+    }
+
+    const shared: EnvironmentProfileOverrides = raw && typeof raw === 'object' ? raw : {};
+    return {
+      profiles: Object.fromEntries(ENVIRONMENT_PROFILE_NAMES.map(name => [name, shared]))
+    };
+  }
+
+  private selectProfileName(config: EnvironmentConfig): EnvironmentProfileName {
+    if (typeof window === 'undefined') {
+      return config.defaultProfile ?? 'production';
+    }
+
+    const fromQuery = new URLSearchParams(window.location.search).get(ENVIRONMENT_PROFILE_QUERY_PARAM);
+    if (this.isProfileName(fromQuery)) {
+      return fromQuery;
+    }
+
+    const hostname = window.location.hostname;
+    for (const [pattern, name] of Object.entries(config.hostnames ?? {})) {
+      const matches = pattern.startsWith('*.')
+        ? hostname.endsWith(pattern.substring(1))
+        : hostname === pattern;
+      if (matches && this.isProfileName(name)) {
+        return name;
+      }
+    }
+
+    return config.defaultProfile ?? this.fallbackProfileName();
+  }
+
+  private fallbackProfileName(): EnvironmentProfileName {
+    if (typeof window === 'undefined') {
+      return 'production';
+    }
+    const hostname = window.location.hostname;
+    return hostname === 'localhost' || hostname === '127.0.0.1' ? 'dev' : 'production';
+  }
+
+  private isProfileName(value: unknown): value is EnvironmentProfileName {
+    return typeof value === 'string' && (ENVIRONMENT_PROFILE_NAMES as string[]).includes(value);
+  }
+
+  private mergeProfile(overrides: EnvironmentProfileOverrides): EnvironmentProfile {
+    return {
+      proxy: { ...DEFAULT_ENVIRONMENT_PROFILE.proxy, ...overrides.proxy },
+      contentApi: { ...DEFAULT_ENVIRONMENT_PROFILE.contentApi, ...overrides.contentApi },
+      contactApi: { ...DEFAULT_ENVIRONMENT_PROFILE.contactApi, ...overrides.contactApi },
+      outreach: { ...DEFAULT_ENVIRONMENT_PROFILE.outreach, ...overrides.outreach },
+      features: { ...DEFAULT_ENVIRONMENT_PROFILE.features, ...overrides.features },
+      cache: { ...DEFAULT_ENVIRONMENT_PROFILE.cache, ...overrides.cache }
+    };
+  }
+
+  private expandPlaceholders(value: string): string {
+    if (typeof window === 'undefined') {
+      return value;
+    }
+    return value
+      .replace('{protocol}', window.location.protocol)
+      .replace('{hostname}', window.location.hostname);
+  }
+}
@@ -0,0 +1,300 @@
+import { Injectable } from '@angular/core';
+import type { DataSourceLeg, ResponseType } from './data-loading.service';
+import { DEFAULT_ENVIRONMENT_PROFILE } from '../models/environment-config';
+
+/**
+ * Entry persisted in IndexedDB, keyed by local URL
+ */
+export interface PersistentCacheRecord {
+  key: string;
+  data: any;
+  responseType: ResponseType;
+  source: DataSourceLeg;
+  timestamp: number;
+  lastAccessed: number;
+  size: number;
+  servedBy?: string;
+  hash?: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt?: number;
+}
+
+/**
+ * Persistent tier statistics exposed through DataLoadingService.getCacheStats
+ */
+export interface PersistentCacheStats {
+  available: boolean;
+  entries: number;
+  totalBytes: number;
+  budgetBytes: number;
+  evictions: number;
+  evictedBytes: number;
+}
+
+const DB_NAME = 'nextgen-portfolio-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+// Size and last access per key, so startup and LRU bookkeeping never read payloads
+const META_STORE_NAME = 'meta';
+
+/**
+ * Row of the meta store, mirrored in the in-memory index
+ */
+interface PersistentCacheMeta {
+  key: string;
+  size: number;
+  lastAccessed: number;
+}
+
+/**
+ * Default size budget for the persistent tier (the CV blob plus data JSON fit comfortably);
+ * the active environment profile may override it via setBudget
+ */
+const DEFAULT_BUDGET_BYTES = DEFAULT_ENVIRONMENT_PROFILE.cache.persistentBudgetBytes;
+
+/**
+ * Persistent Cache Service - IndexedDB tier behind DataLoadingService's in-memory cache
+ *
+ * Features:
+ * - Survives reloads, so prefetched blobs and data JSON are not downloaded again every visit
+ * - Size budget with least-recently-used eviction
+ * - Degrades to a no-op where IndexedDB is unavailable (private mode, SSR, tests)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PersistentCacheService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Lightweight index of what is on disk: key → size and last access time.
+   * Loaded from the meta store and kept in memory, so eviction decisions and stats don't need a store scan.
+   */
+  private index = new Map<string, { size: number; lastAccessed: number }>();
+
+  private budgetBytes = DEFAULT_BUDGET_BYTES;
+  private evictions = 0;
+  private evictedBytes = 0;
+  private available = typeof indexedDB !== 'undefined';
+
+  /**
+   * Read an entry and mark it as recently used
+   */
+  async get(key: string): Promise<PersistentCacheRecord | null> {
+    const db = await this.open();
+    if (!db) return null;
+
+    try {
+      const record = await this.request<PersistentCacheRecord | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+      );
+      if (!record) return null;
+
+      const meta: PersistentCacheMeta = { key, size: record.size, lastAccessed: Date.now() };
+      this.index.set(key, { size: meta.size, lastAccessed: meta.lastAccessed });
+      // Access time bookkeeping is best-effort; a lost update only skews LRU order slightly
+      db.transaction(META_STORE_NAME, 'readwrite').objectStore(META_STORE_NAME).put(meta);
+      return { ...record, lastAccessed: meta.lastAccessed };
+    } catch (error) {
+      console.warn(`Persistent cache read failed for ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store an entry, evicting least recently used entries to stay within the budget
+   */
+  async put(record: Omit<PersistentCacheRecord, 'lastAccessed' | 'size'>): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    const size = this.estimateSize(record.data);
+    if (size > this.budgetBytes) {
+      // Never worth evicting everything for a single oversized entry
+      return;
+    }
+
+    try {
+      const existing = this.index.get(record.key);
+      await this.evictUntilFits(db, size - (existing?.size ?? 0), record.key);
+
+      const stored: PersistentCacheRecord = { ...record, size, lastAccessed: Date.now() };
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      transaction.objectStore(STORE_NAME).put(stored);
+      transaction.objectStore(META_STORE_NAME).put({ key: record.key, size, lastAccessed: stored.lastAccessed });
+      await this.complete(transaction);
+      this.index.set(record.key, { size, lastAccessed: stored.lastAccessed });
+    } catch (error) {
+      console.warn(`Persistent cache write failed for ${record.key}:`, error);
+    }
+  }
+
+  /**
+   * Delete one entry, or every entry when no key is given
+   */
+  async delete(key?: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      const stores = [transaction.objectStore(STORE_NAME), transaction.objectStore(META_STORE_NAME)];
+      stores.forEach(store => key ? store.delete(key) : store.clear());
+      await this.complete(transaction);
+      if (key) {
+        this.index.delete(key);
+      } else {
+        this.index.clear();
+      }
+    } catch (error) {
+      console.warn('Persistent cache delete failed:', error);
+    }
+  }
+
+  /**
+   * Change the size budget; shrinking it evicts immediately
+   */
+  async setBudget(bytes: number): Promise<void> {
+    this.budgetBytes = bytes;
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      await this.evictUntilFits(db, 0);
+    } catch (error) {
+      console.warn('Persistent cache eviction failed:', error);
+    }
+  }
+
+  /**
+   * Get persistent tier statistics
+   */
+  getStats(): PersistentCacheStats {
+    let totalBytes = 0;
+    this.index.forEach(entry => totalBytes += entry.size);
+
+    return {
+      available: this.available,
+      entries: this.index.size,
+      totalBytes,
+      budgetBytes: this.budgetBytes,
+      evictions: this.evictions,
+      evictedBytes: this.evictedBytes
+    };
+  }
+
+  // ==========================================
+  // PRIVATE IMPLEMENTATION
+  // ==========================================
+
+  /**
+   * Open the database once and build the in-memory index
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase();
+    }
+    return this.dbPromise;
+  }
+
+  private async openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.available) return null;
+
+    try {
+      const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+      openRequest.onupgradeneeded = () => this.createStores(openRequest.result);
+      const db = await this.request<IDBDatabase>(openRequest);
+
+      // Only the small meta rows are read at startup, never the payloads
+      const rows = await this.request<PersistentCacheMeta[]>(
+        db.transaction(META_STORE_NAME, 'readonly').objectStore(META_STORE_NAME).getAll()
+      );
+      rows.forEach(row => this.index.set(row.key, { size: row.size, lastAccessed: row.lastAccessed }));
+
+      return db;
+    } catch (error) {
+      console.warn('Persistent cache unavailable, continuing with memory cache only:', error);
+      this.available = false;
+      return null;
+    }
+  }
+
+  /**
+   * Create the payload and meta stores of a new database
+   */
+  private createStores(db: IDBDatabase): void {
+    db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    db.createObjectStore(META_STORE_NAME, { keyPath: 'key' });
+  }
+
+  /**
+   * Evict least recently used entries until `incomingBytes` more would fit in the budget.
+   * The index and counters change only once the deletes are committed.
+   */
+  private async evictUntilFits(db: IDBDatabase, incomingBytes: number, protectedKey?: string): Promise<void> {
+    let totalBytes = this.getStats().totalBytes;
+    if (totalBytes + incomingBytes <= this.budgetBytes) return;
+
+    const candidates = [...this.index.entries()]
+      .filter(([key]) => key !== protectedKey)
+      .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed);
+
+    const evicted: [string, number][] = [];
+    for (const [key, entry] of candidates) {
+      if (totalBytes + incomingBytes <= this.budgetBytes) break;
+      evicted.push([key, entry.size]);
+      totalBytes -= entry.size;
+    }
+    if (evicted.length === 0) return;
+
+    const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+    for (const [key] of evicted) {
+      transaction.objectStore(STORE_NAME).delete(key);
+      transaction.objectStore(META_STORE_NAME).delete(key);
+    }
+    await this.complete(transaction);
+
+    for (const [key, size] of evicted) {
+      this.index.delete(key);
+      this.evictions++;
+      this.evictedBytes += size;
+    }
+  }
+
+  /**
+   * Approximate the stored size of a payload in bytes
+   */
+  private estimateSize(data: any): number {
+    if (data instanceof Blob) return data.size;
+    if (data instanceof ArrayBuffer) return data.byteLength;
+    if (typeof data === 'string') return data.length * 2;
+
+    try {
+      return JSON.stringify(data).length * 2;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Resolve once a transaction has committed; reject when it fails or is aborted
+   */
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Promisify an IndexedDB request
+   */
+  private request<R>(request: IDBRequest): Promise<R> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as R);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,227 @@
+import { PortfolioCardData } from '../components/home/portfolio/portfolio-card/portfolio-card.interface';
+import {
+  EMPTY_PORTFOLIO_QUERY,
+  PortfolioQuery,
+  buildFacets,
+  filterProjects,
+  isEmptyQuery,
+  parseSort,
+  queryFromParams,
+  queryToParams,
+  sortProjects,
+  toggleFacetValue
+} from './portfolio-search';
+
+function project(id: string, overrides: Partial<PortfolioCardData> = {}): PortfolioCardData {
+  return {
+    id,
+    title: id,
+    description: '',
+    background: { type: 'image', content: `/assets/images/${id}.png` },
+    category: 'web',
+    metadata: {},
+    ...overrides
+  };
+}
+
+const PROJECTS: PortfolioCardData[] = [
+  project('engine', {
+    title: 'Voxel Engine',
+    description: 'WebGL renderer written in TypeScript',
+    category: 'graphics',
+    metadata: { tech: ['WebGL', 'TypeScript'], year: '2023', status: 'completed', featured: true }
+  }),
+  project('portfolio', {
+    title: 'Portfolio',
+    description: 'Angular site with a voxel background and a blog engine',
+    metadata: { tech: ['Angular', 'TypeScript'], year: '2024', status: 'in-progress' }
+  }),
+  project('cafe', {
+    title: 'Café Finder',
+    description: 'Maps coffee places with Node.js',
+    metadata: { tech: ['Node.js'], year: '2021', status: 'archived', featured: true }
+  })
+];
+
+const ids = (projects: PortfolioCardData[]) => projects.map(item => item.id);
+
+const query = (overrides: Partial<PortfolioQuery>): PortfolioQuery => ({ ...EMPTY_PORTFOLIO_QUERY, ...overrides });
+
+describe('portfolio search', () => {
+  describe('filterProjects', () => {
+    it('keeps every project, in portfolio order, for an empty query', () => {
+      expect(ids(filterProjects(PROJECTS, EMPTY_PORTFOLIO_QUERY))).toEqual(['engine', 'portfolio', 'cafe']);
+    });
+
+    it('ranks title hits above description hits', () => {
+      expect(ids(filterProjects(PROJECTS, query({ search: 'engine' })))).toEqual(['engine', 'portfolio']);
+      expect(ids(filterProjects(PROJECTS, query({ search: 'voxel' })))).toEqual(['engine', 'portfolio']);
+    });
+
+    it('ranks whole words above prefixes and prefixes above matches inside a word', () => {
+      const projects = [
+        project('inside', { description: 'A rerendering pipeline' }),
+        project('prefix', { description: 'Renderers compared' }),
+        project('word', { description: 'Render loop' })
+      ];
+      expect(ids(filterProjects(projects, query({ search: 'render' })))).toEqual(['word', 'prefix', 'inside']);
+    });
+
+    it('forgives typos in longer words only', () => {
+      expect(ids(filterProjects(PROJECTS, query({ search: 'angulr' })))).toEqual(['portfolio']);
+      expect(ids(filterProjects(PROJECTS, query({ search: 'typscript renderr' })))).toEqual(['engine']);
+      expect(filterProjects(PROJECTS, query({ search: 'cfe' }))).toEqual([]);
+    });
+
+    it('requires every search word to match', () => {
+      expect(ids(filterProjects(PROJECTS, query({ search: 'voxel blog' })))).toEqual(['portfolio']);
+      expect(filterProjects(PROJECTS, query({ search: 'voxel kotlin' }))).toEqual([]);
+    });
+
+    it('ignores case and diacritics, and keeps tech punctuation', () => {
+      expect(ids(filterProjects(PROJECTS, query({ search: 'CAFE' })))).toEqual(['cafe']);
+      expect(ids(filterProjects(PROJECTS, query({ search: 'node.js' })))).toEqual(['cafe']);
+    });
+
+    it('ORs values within a facet and ANDs facets together', () => {
+      expect(ids(filterProjects(PROJECTS, query({ tech: ['webgl', 'Angular'] })))).toEqual(['engine', 'portfolio']);
+      expect(ids(filterProjects(PROJECTS, query({ tech: ['TypeScript'], years: ['2024'] })))).toEqual(['portfolio']);
+      expect(ids(filterProjects(PROJECTS, query({ featured: true, statuses: ['archived'] })))).toEqual(['cafe']);
+    });
+  });
+
+  describe('buildFacets', () => {
+    it('counts each facet value against the search and the other facets', () => {
+      const facets = buildFacets(PROJECTS, query({ tech: ['TypeScript'], years: ['2023'] }), { graphics: 'Graphics' });
+
+      expect(facets.categories).toEqual([
+        { value: 'graphics', label: 'Graphics', count: 1, selected: false },
+        { value: 'web', label: 'web', count: 0, selected: false }
+      ]);
+      // Counted without the tech selection itself, so sibling values stay reachable
+      expect(facets.tech.map(option => [option.value, option.count, option.selected])).toEqual([
+        ['TypeScript', 1, true],
+        ['WebGL', 1, false],
+        ['Angular', 0, false],
+        ['Node.js', 0, false]
+      ]);
+      expect(facets.years.map(option => [option.value, option.count])).toEqual([['2024', 1], ['2023', 1], ['2021', 0]]);
+      expect(facets.featured).toEqual({ count: 1, selected: false });
+    });
+
+    it('orders tech by usage, years newest first and labels statuses', () => {
+      const facets = buildFacets(PROJECTS, EMPTY_PORTFOLIO_QUERY);
+      expect(facets.tech.map(option => [option.value, option.count])).toEqual([
+        ['TypeScript', 2],
+        ['Angular', 1],
+        ['Node.js', 1],
+        ['WebGL', 1]
+      ]);
+      expect(facets.years.map(option => option.value)).toEqual(['2024', '2023', '2021']);
+      expect(facets.statuses.map(option => option.label)).toEqual(['Archived', 'Completed', 'In Progress']);
+      expect(facets.featured.count).toBe(2);
+    });
+
+    it('only counts projects matching the search', () => {
+      const facets = buildFacets(PROJECTS, query({ search: 'voxel' }));
+      expect(facets.categories.map(option => option.count)).toEqual([1, 1]);
+      expect(facets.tech.find(option => option.value === 'Node.js')?.count).toBe(0);
+    });
+  });
+
+  describe('query state', () => {
+    it('toggles facet values case-insensitively', () => {
+      const withTech = toggleFacetValue(EMPTY_PORTFOLIO_QUERY, 'tech', 'WebGL');
+      expect(withTech.tech).toEqual(['WebGL']);
+      expect(isEmptyQuery(withTech)).toBeFalse();
+      expect(toggleFacetValue(withTech, 'tech', 'webgl').tech).toEqual([]);
+      expect(EMPTY_PORTFOLIO_QUERY.tech).toEqual([]);
+    });
+
+    it('does not count the sort order or blank search text as a query', () => {
+      expect(isEmptyQuery(query({ search: '   ', sort: 'title' }))).toBeTrue();
+      expect(isEmptyQuery(query({ featured: true }))).toBeFalse();
+    });
+  });
+
+  describe('query params', () => {
+    const defaults = { category: 'web', sort: 'year' as const };
+
+    it('round-trips a query through its params', () => {
+      const original = query({
+        search: 'voxel engine',
+        categories: ['graphics', 'web'],
+        tech: ['WebGL', 'TypeScript'],
+        years: ['2023'],
+        statuses: ['completed'],
+        featured: true,
+        sort: 'title'
+      });
+      const params = queryToParams(original, defaults);
+
+      expect(params).toEqual({
+        q: 'voxel engine',
+        featured: '1',
+        sort: 'title',
+        category: 'graphics,web',
+        tech: 'WebGL,TypeScript',
+        year: '2023',
+        status: 'completed'
+      });
+      expect(queryFromParams(params, defaults)).toEqual(original);
+    });
+
+    it('leaves defaults out of the URL and clears empty facets with null', () => {
+      const params = queryToParams(query({ categories: ['Web'], sort: 'year' }), defaults);
+      expect(params).toEqual({ q: null, featured: null, sort: null, category: null, tech: null, year: null, status: null });
+      expect(queryFromParams({}, defaults)).toEqual(query({ categories: ['web'] }));
+    });
+
+    it('writes category=all to lift the default category, and reads it back', () => {
+      const params = queryToParams(EMPTY_PORTFOLIO_QUERY, defaults);
+      expect(params['category']).toBe('all');
+      expect(queryFromParams(params, defaults)).toEqual(EMPTY_PORTFOLIO_QUERY);
+    });
+
+    it('tolerates spacing, empty list items and sort aliases', () => {
+      expect(queryFromParams({ tech: ' Angular, ,WebGL ', featured: 'true', sort: 'Newest' })).toEqual(
+        query({ tech: ['Angular', 'WebGL'], featured: true, sort: 'year' })
+      );
+      expect(queryFromParams({ featured: 'yes', sort: 'random' })).toEqual(EMPTY_PORTFOLIO_QUERY);
+    });
+  });
+
+  describe('sorting', () => {
+    const undated = project('notes', { title: 'notes', metadata: { status: 'completed' } });
+    const projects = [...PROJECTS, undated];
+
+    it('orders by year, newest first, with undated projects last', () => {
+      expect(ids(sortProjects(projects, 'year'))).toEqual(['portfolio', 'engine', 'cafe', 'notes']);
+    });
+
+    it('puts featured projects first and keeps portfolio order among ties', () => {
+      expect(ids(sortProjects(projects, 'featured'))).toEqual(['engine', 'cafe', 'portfolio', 'notes']);
+      expect(ids(sortProjects(projects, 'manual'))).toEqual(['engine', 'portfolio', 'cafe', 'notes']);
+    });
+
+    it('orders by status, active work first, then by year', () => {
+      expect(ids(sortProjects(projects, 'status'))).toEqual(['portfolio', 'engine', 'notes', 'cafe']);
+    });
+
+    it('orders titles alphabetically, ignoring case and accents', () => {
+      expect(ids(sortProjects(projects, 'title'))).toEqual(['cafe', 'notes', 'portfolio', 'engine']);
+    });
+
+    it('uses the chosen sort over relevance, and the default sort without a search', () => {
+      expect(ids(filterProjects(PROJECTS, query({ search: 'voxel', sort: 'year' })))).toEqual(['portfolio', 'engine']);
+      expect(ids(filterProjects(PROJECTS, EMPTY_PORTFOLIO_QUERY, 'year'))).toEqual(['portfolio', 'engine', 'cafe']);
+    });
+
+    it('accepts sortBy aliases and rejects anything else', () => {
+      expect(parseSort(' Alphabetical ')).toBe('title');
+      expect(parseSort('order')).toBe('manual');
+      expect(parseSort('popularity')).toBeNull();
+      expect(parseSort(3)).toBeNull();
+    });
+  });
+});
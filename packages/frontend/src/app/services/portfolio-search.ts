@@ -0,0 +1,403 @@
+import { Params } from '@angular/router';
+import { PortfolioCardData } from '../components/home/portfolio/portfolio-card/portfolio-card.interface';
+
+/**
+ * Search text plus facet selections for the portfolio grid.
+ * Values within one facet are OR-ed, facets are AND-ed together.
+ */
+export interface PortfolioQuery {
+  search: string;
+  categories: string[];
+  tech: string[];
+  years: string[];
+  statuses: string[];
+  featured: boolean;
+  /** null: relevance while searching, otherwise the configured sortBy */
+  sort: PortfolioSort | null;
+}
+
+/**
+ * Grid order; 'manual' keeps the order of portfolio.json
+ */
+export type PortfolioSort = 'manual' | 'year' | 'featured' | 'status' | 'title';
+
+export const PORTFOLIO_SORT_OPTIONS: { value: PortfolioSort; label: string }[] = [
+  { value: 'year', label: 'Newest first' },
+  { value: 'featured', label: 'Featured first' },
+  { value: 'status', label: 'Status' },
+  { value: 'title', label: 'Title (A-Z)' },
+  { value: 'manual', label: 'Curated order' }
+];
+
+/**
+ * Values a link leaves out: the configured default category and sort
+ */
+export interface PortfolioQueryDefaults {
+  category?: string;
+  sort?: PortfolioSort;
+}
+
+export type PortfolioFacetKey = 'categories' | 'tech' | 'years' | 'statuses';
+
+export interface FacetOption {
+  value: string;
+  label: string;
+  /** Matches if this value were toggled on, given the search and the other facets */
+  count: number;
+  selected: boolean;
+}
+
+export interface PortfolioFacets {
+  categories: FacetOption[];
+  tech: FacetOption[];
+  years: FacetOption[];
+  statuses: FacetOption[];
+  featured: { count: number; selected: boolean };
+}
+
+export const EMPTY_PORTFOLIO_QUERY: PortfolioQuery = {
+  search: '',
+  categories: [],
+  tech: [],
+  years: [],
+  statuses: [],
+  featured: false,
+  sort: null
+};
+
+/**
+ * Query param name per facet, e.g. ?q=engine&tech=Angular,WebGL&featured=1
+ */
+const QUERY_PARAMS: Record<PortfolioFacetKey, string> = {
+  categories: 'category',
+  tech: 'tech',
+  years: 'year',
+  statuses: 'status'
+};
+
+const FACET_KEYS = Object.keys(QUERY_PARAMS) as PortfolioFacetKey[];
+
+const STATUS_LABELS: Record<string, string> = {
+  'completed': 'Completed',
+  'in-progress': 'In Progress',
+  'archived': 'Archived'
+};
+
+// Title hits count double against description hits
+const TITLE_WEIGHT = 2;
+
+// Active work first, archived last
+const STATUS_ORDER: Record<string, number> = {
+  'in-progress': 0,
+  'completed': 1,
+  'archived': 2
+};
+
+// Spellings accepted for metadata.sortBy and ?sort=
+const SORT_ALIASES: Record<string, PortfolioSort> = {
+  manual: 'manual',
+  order: 'manual',
+  none: 'manual',
+  default: 'manual',
+  year: 'year',
+  date: 'year',
+  newest: 'year',
+  featured: 'featured',
+  'featured-first': 'featured',
+  status: 'status',
+  title: 'title',
+  name: 'title',
+  alphabetical: 'title'
+};
+
+// ==========================================
+// QUERY STATE
+// ==========================================
+
+/**
+ * Whether any search text or facet is active (the sort order doesn't count)
+ */
+export function isEmptyQuery(query: PortfolioQuery): boolean {
+  return !query.search.trim() && !query.featured && FACET_KEYS.every(key => query[key].length === 0);
+}
+
+export function toggleFacetValue(query: PortfolioQuery, key: PortfolioFacetKey, value: string): PortfolioQuery {
+  const current = query[key];
+  const next = current.some(item => sameValue(item, value))
+    ? current.filter(item => !sameValue(item, value))
+    : [...current, value];
+  return { ...query, [key]: next };
+}
+
+/**
+ * Read a query from route query params; unknown params are ignored.
+ * Without a category param the default category applies, '?category=all' overrides it.
+ */
+export function queryFromParams(params: Params, defaults: PortfolioQueryDefaults = {}): PortfolioQuery {
+  const list = (name: string): string[] =>
+    String(params[name] ?? '').split(',').map(value => value.trim()).filter(Boolean);
+
+  const categoryParam = params[QUERY_PARAMS.categories];
+  const categories = categoryParam === undefined && defaults.category && defaults.category !== 'all'
+    ? [defaults.category]
+    : list(QUERY_PARAMS.categories).filter(value => value !== 'all');
+
+  return {
+    search: String(params['q'] ?? ''),
+    categories,
+    tech: list(QUERY_PARAMS.tech),
+    years: list(QUERY_PARAMS.years),
+    statuses: list(QUERY_PARAMS.statuses),
+    featured: params['featured'] === '1' || params['featured'] === 'true',
+    sort: parseSort(params['sort'])
+  };
+}
+
+/**
+ * Query params for a query; cleared facets and defaults map to null so a merge removes them
+ */
+export function queryToParams(query: PortfolioQuery, defaults: PortfolioQueryDefaults = {}): Params {
+  const params: Params = {
+    q: query.search.trim() || null,
+    featured: query.featured ? '1' : null,
+    sort: query.sort && query.sort !== defaults.sort ? query.sort : null
+  };
+  for (const key of FACET_KEYS) {
+    params[QUERY_PARAMS[key]] = query[key].length ? query[key].join(',') : null;
+  }
+
+  const defaultCategory = defaults.category && defaults.category !== 'all' ? defaults.category : null;
+  if (defaultCategory) {
+    if (query.categories.length === 0) {
+      params[QUERY_PARAMS.categories] = 'all';
+    } else if (query.categories.length === 1 && sameValue(query.categories[0], defaultCategory)) {
+      params[QUERY_PARAMS.categories] = null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Sort strategy for a metadata.sortBy or ?sort= value; null when unrecognised
+ */
+export function parseSort(value: unknown): PortfolioSort | null {
+  return typeof value === 'string' ? SORT_ALIASES[value.trim().toLowerCase()] ?? null : null;
+}
+
+// ==========================================
+// MATCHING
+// ==========================================
+
+/**
+ * Projects matching the query, in the query's sort order. Without one they are
+ * ranked by relevance while searching and by defaultSort otherwise.
+ */
+export function filterProjects(
+  projects: PortfolioCardData[],
+  query: PortfolioQuery,
+  defaultSort: PortfolioSort = 'manual'
+): PortfolioCardData[] {
+  const tokens = tokenize(query.search);
+  const scored = projects
+    .map((project, index) => ({ project, index, score: tokens.length ? searchScore(project, tokens) : 1 }))
+    .filter(entry => entry.score > 0 && matchesFacets(entry.project, query));
+
+  if (!query.sort && tokens.length) {
+    scored.sort((a, b) => b.score - a.score || a.index - b.index);
+    return scored.map(entry => entry.project);
+  }
+  return sortProjects(scored.map(entry => entry.project), query.sort ?? defaultSort);
+}
+
+/**
+ * Stable sort; ties keep their portfolio.json order
+ */
+export function sortProjects(projects: PortfolioCardData[], sort: PortfolioSort): PortfolioCardData[] {
+  const compare = SORT_COMPARATORS[sort];
+  return projects
+    .map((project, index) => ({ project, index }))
+    .sort((a, b) => compare(a.project, b.project) || a.index - b.index)
+    .map(entry => entry.project);
+}
+
+/**
+ * Facet options with live counts. Each facet is counted against the search and
+ * every other facet, so its own selections never hide its siblings.
+ */
+export function buildFacets(
+  projects: PortfolioCardData[],
+  query: PortfolioQuery,
+  categoryLabels: Record<string, string> = {}
+): PortfolioFacets {
+  const tokens = tokenize(query.search);
+  const searched = tokens.length ? projects.filter(project => searchScore(project, tokens) > 0) : projects;
+
+  const options = (key: PortfolioFacetKey, label: (value: string) => string, order: (a: FacetOption, b: FacetOption) => number) => {
+    const base = searched.filter(project => matchesFacets(project, query, key));
+    const values = uniqueValues(projects.flatMap(project => facetValues(project, key)));
+
+    return values
+      .map(value => ({
+        value,
+        label: label(value),
+        count: base.filter(project => facetValues(project, key).some(item => sameValue(item, value))).length,
+        selected: query[key].some(item => sameValue(item, value))
+      }))
+      .sort(order);
+  };
+
+  const byLabel = (a: FacetOption, b: FacetOption) => a.label.localeCompare(b.label);
+  const featuredBase = searched.filter(project => matchesFacets(project, { ...query, featured: false }));
+
+  return {
+    categories: options('categories', value => categoryLabels[value] ?? value, () => 0),
+    // Most used technologies first
+    tech: options('tech', value => value, (a, b) => b.count - a.count || byLabel(a, b)),
+    years: options('years', value => value, (a, b) => b.value.localeCompare(a.value)),
+    statuses: options('statuses', value => STATUS_LABELS[value] ?? value, byLabel),
+    featured: {
+      count: featuredBase.filter(project => project.metadata?.featured).length,
+      selected: query.featured
+    }
+  };
+}
+
+// ==========================================
+// PRIVATE IMPLEMENTATION
+// ==========================================
+
+const yearOf = (project: PortfolioCardData): number => parseInt(project.metadata?.year ?? '', 10) || 0;
+
+const SORT_COMPARATORS: Record<PortfolioSort, (a: PortfolioCardData, b: PortfolioCardData) => number> = {
+  manual: () => 0,
+  year: (a, b) => yearOf(b) - yearOf(a),
+  featured: (a, b) => Number(!!b.metadata?.featured) - Number(!!a.metadata?.featured),
+  status: (a, b) => (STATUS_ORDER[a.metadata?.status ?? ''] ?? 3) - (STATUS_ORDER[b.metadata?.status ?? ''] ?? 3) || yearOf(b) - yearOf(a),
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' })
+};
+
+function facetValues(project: PortfolioCardData, key: PortfolioFacetKey): string[] {
+  switch (key) {
+    case 'categories':
+      return [project.category];
+    case 'tech':
+      return project.metadata?.tech ?? [];
+    case 'years':
+      return project.metadata?.year ? [project.metadata.year] : [];
+    case 'statuses':
+      return project.metadata?.status ? [project.metadata.status] : [];
+  }
+}
+
+/**
+ * @param ignore Facet left out of the check (used for its own counts)
+ */
+function matchesFacets(project: PortfolioCardData, query: PortfolioQuery, ignore?: PortfolioFacetKey): boolean {
+  if (query.featured && !project.metadata?.featured) {
+    return false;
+  }
+  return FACET_KEYS.every(key => {
+    if (key === ignore || query[key].length === 0) {
+      return true;
+    }
+    const values = facetValues(project, key);
+    return query[key].some(selected => values.some(value => sameValue(value, selected)));
+  });
+}
+
+function sameValue(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function uniqueValues(values: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const value of values) {
+    if (!seen.has(value.toLowerCase())) {
+      seen.set(value.toLowerCase(), value);
+    }
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Lowercase words without diacritics; keeps characters used in tech names (c++, c#, node.js)
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .map(word => word.replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Sum of per-token scores, or 0 when any token matches neither title nor description
+ */
+function searchScore(project: PortfolioCardData, tokens: string[]): number {
+  const titleWords = tokenize(project.title);
+  const descriptionWords = tokenize(project.description);
+  let total = 0;
+
+  for (const token of tokens) {
+    const score = Math.max(
+      tokenScore(token, titleWords) * TITLE_WEIGHT,
+      tokenScore(token, descriptionWords)
+    );
+    if (score === 0) {
+      return 0;
+    }
+    total += score;
+  }
+  return total;
+}
+
+/**
+ * 3 for a whole word, 2 for a word prefix, 1.5 inside a word, 1 within the typo allowance
+ */
+function tokenScore(token: string, words: string[]): number {
+  const allowance = token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+  let best = 0;
+
+  for (const word of words) {
+    if (word === token) return 3;
+    if (word.startsWith(token)) {
+      best = Math.max(best, 2);
+    } else if (word.includes(token)) {
+      best = Math.max(best, 1.5);
+    } else if (allowance && best < 1) {
+      // Compare against the word and its prefix of the token's length, so "angulr" finds "angular"
+      const prefix = word.slice(0, token.length);
+      if (editDistance(token, word, allowance) <= allowance || editDistance(token, prefix, allowance) <= allowance) {
+        best = 1;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
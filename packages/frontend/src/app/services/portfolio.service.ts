@@ -1,8 +1,21 @@
-import { Injectable, inject, signal } from '@angular/core';
+import { Injectable, computed, inject } from '@angular/core';
 import { DataLoadingService } from './data-loading.service';
 import { PortfolioCardData } from '../components/home/portfolio/portfolio-card/portfolio-card.interface';
-
-interface PortfolioResponse {
+import {
+  EMPTY_PORTFOLIO_QUERY,
+  PortfolioFacets,
+  PortfolioQuery,
+  PortfolioQueryDefaults,
+  PortfolioSort,
+  buildFacets,
+  filterProjects,
+  parseSort,
+  sortProjects
+} from './portfolio-search';
+
+const PORTFOLIO_DATA_PATH = 'assets/data/portfolio.json';
+
+export interface PortfolioResponse {
   sectionHeader: {
     title: string;
     description: string;
@@ -20,45 +33,71 @@ interface PortfolioResponse {
   };
 }
 
+/**
+ * Grid enter/leave transition, from metadata.animationType
+ */
+export type PortfolioAnimation = 'fade' | 'scale' | 'slide' | 'flip' | 'none';
+
+/**
+ * metadata from portfolio.json, resolved against the projects
+ */
+export interface PortfolioSettings {
+  defaultFilter: string; // A category id present in the data, or 'all'
+  sortBy: PortfolioSort;
+  animationType: PortfolioAnimation;
+}
+
+const ANIMATION_ALIASES: Record<string, PortfolioAnimation> = {
+  fade: 'fade',
+  fadein: 'fade',
+  scale: 'scale',
+  zoom: 'scale',
+  slide: 'slide',
+  slideup: 'slide',
+  flip: 'flip',
+  none: 'none'
+};
+
+export interface ProjectNeighbours {
+  previous: PortfolioCardData | null;
+  next: PortfolioCardData | null;
+  position: number; // 1-based, 0 when the project is not in the list
+  total: number;
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class PortfolioService {
   private dataLoadingService = inject(DataLoadingService);
-  
-  // Signals for reactive data
-  portfolioData = signal<PortfolioResponse | null>(null);
-  isLoading = signal<boolean>(true);
-  error = signal<string | null>(null);
-
-  private isLoadingData = false; // Guard against multiple simultaneous calls
-
-  async loadPortfolioData(): Promise<void> {
-    // Prevent multiple simultaneous calls
-    if (this.isLoadingData) {
-      return;
-    }
 
-    this.isLoadingData = true;
+  // Shared resource for portfolio.json (loading/error/refresh state lives there)
+  readonly resource = this.dataLoadingService.resource<PortfolioResponse>(PORTFOLIO_DATA_PATH);
 
-    try {
-      this.isLoading.set(true);
-      this.error.set(null);
-
-      // NEW CLEAN API - Just specify the endpoint, service handles everything else
-      const data = await this.dataLoadingService.getData<PortfolioResponse>('assets/data/portfolio.json');
-
-      // Process the data
-      const processedData = this.processPortfolioData(data);
+  // Signals for reactive data
+  portfolioData = computed<PortfolioResponse | null>(() => {
+    const data = this.resource.value();
+    return data ? this.processPortfolioData(data) : null;
+  });
+  settings = computed<PortfolioSettings>(() => {
+    const data = this.portfolioData();
+    return {
+      defaultFilter: data?.categories?.find(category => category.isDefault)?.id ?? 'all',
+      sortBy: parseSort(data?.metadata?.sortBy) ?? 'manual',
+      animationType: ANIMATION_ALIASES[(data?.metadata?.animationType ?? '').toLowerCase().replace(/[^a-z]/g, '')] ?? 'fade'
+    };
+  });
+  // Left out of shareable URLs since they apply anyway
+  queryDefaults = computed<PortfolioQueryDefaults>(() => ({
+    category: this.settings().defaultFilter,
+    sort: this.settings().sortBy
+  }));
+  isLoading = computed<boolean>(() => this.resource.status() !== 'ready' && this.resource.status() !== 'error');
+  error = computed<string | null>(() => this.resource.error()?.message ?? null);
 
-      // Update signals
-      this.portfolioData.set(processedData);
-      this.isLoading.set(false);
-    } catch (error) {
-      this.error.set(error instanceof Error ? error.message : 'Failed to load portfolio data');
-    } finally {
-      this.isLoadingData = false;
-    }
+  async loadPortfolioData(): Promise<void> {
+    // Failures are surfaced through error(), so callers only need to await completion
+    await this.resource.load().catch(() => undefined);
   }
 
   private processPortfolioData(data: PortfolioResponse): PortfolioResponse {
@@ -80,7 +119,7 @@ export class PortfolioService {
     }));
 
     // Dynamically generate categories based on actual projects
-    const dynamicCategories = this.generateCategoriesFromProjects(processedProjects);
+    const dynamicCategories = this.generateCategoriesFromProjects(processedProjects, data.metadata?.defaultFilter);
 
     return {
       ...data,
@@ -89,7 +128,7 @@ export class PortfolioService {
     };
   }
 
-  private generateCategoriesFromProjects(projects: PortfolioCardData[]): {id: string, label: string, isDefault?: boolean}[] {
+  private generateCategoriesFromProjects(projects: PortfolioCardData[], defaultFilter?: string): {id: string, label: string, isDefault?: boolean}[] {
     // Extract unique categories from projects
     const uniqueCategories = [...new Set(projects.map(project => project.category))];
 
@@ -107,18 +146,21 @@ export class PortfolioService {
       'other': 'Other Projects'
     };
 
+    // metadata.defaultFilter picks the default category when it exists, otherwise "All Projects"
+    const defaultCategory = uniqueCategories.find(categoryId => categoryId.toLowerCase() === defaultFilter?.toLowerCase());
+
     // Create category objects
     const categories = uniqueCategories.map(categoryId => ({
       id: categoryId,
       label: categoryLabels[categoryId] || this.capitalizeFirstLetter(categoryId.replace('-', ' ')),
-      isDefault: false
+      isDefault: categoryId === defaultCategory
     }));
 
-    // Always add "All Projects" as first and default
+    // Always add "All Projects" first
     categories.unshift({
       id: 'all',
       label: 'All Projects',
-      isDefault: true
+      isDefault: !defaultCategory
     });
 
     return categories;
@@ -132,13 +174,11 @@ export class PortfolioService {
     const data = this.portfolioData();
     if (!data) return [];
 
-    if (category === 'all') {
-      return data.projects;
-    }
+    const projects = category === 'all'
+      ? data.projects
+      : data.projects.filter(project => project.category.toLowerCase() === category.toLowerCase());
 
-    return data.projects.filter(project => 
-      project.category.toLowerCase() === category.toLowerCase()
-    );
+    return sortProjects(projects, this.settings().sortBy);
   }
 
   getFeaturedProjects(): PortfolioCardData[] {
@@ -154,4 +194,49 @@ export class PortfolioService {
 
     return data.projects.find(project => project.id === id) || null;
   }
+
+  /**
+   * Projects matching search text and facets (see portfolio-search.ts)
+   */
+  queryProjects(query: PortfolioQuery): PortfolioCardData[] {
+    const data = this.portfolioData();
+    if (!data) return [];
+
+    return filterProjects(data.projects, query, this.settings().sortBy);
+  }
+
+  /**
+   * Facet options with live counts for the current query
+   */
+  getFacets(query: PortfolioQuery): PortfolioFacets | null {
+    const data = this.portfolioData();
+    if (!data) return null;
+
+    const categoryLabels = Object.fromEntries((data.categories ?? []).map(category => [category.id, category.label]));
+    return buildFacets(data.projects, query, categoryLabels);
+  }
+
+  /**
+   * Neighbours of a project within a filtered view, for prev/next navigation.
+   * Projects outside the view are placed within the full list instead.
+   */
+  getAdjacentProjects(id: string, query: PortfolioQuery = EMPTY_PORTFOLIO_QUERY): ProjectNeighbours {
+    let projects = this.queryProjects(query);
+    let index = projects.findIndex(project => project.id === id);
+    if (index === -1) {
+      projects = this.queryProjects(EMPTY_PORTFOLIO_QUERY);
+      index = projects.findIndex(project => project.id === id);
+    }
+
+    if (index === -1) {
+      return { previous: null, next: null, position: 0, total: projects.length };
+    }
+
+    return {
+      previous: projects[index - 1] ?? null,
+      next: projects[index + 1] ?? null,
+      position: index + 1,
+      total: projects.length
+    };
+  }
 }
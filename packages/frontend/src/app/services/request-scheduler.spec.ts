@@ -0,0 +1,190 @@
+import { Subject, of, EMPTY } from 'rxjs';
+import { RequestScheduler, createAbortError, isAbortError, toAbortablePromise } from './request-scheduler';
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// Lets settled task promises run their then/finally callbacks
+const flush = () => new Promise(resolve => setTimeout(resolve));
+
+describe('RequestScheduler', () => {
+  let idleCallbacks: IdleRequestCallback[];
+  let originalRequestIdleCallback: typeof globalThis.requestIdleCallback;
+
+  // Background work waits for an idle callback; the specs decide when the browser is idle
+  const runIdle = () => idleCallbacks.splice(0).forEach(callback => callback({} as IdleDeadline));
+
+  beforeEach(() => {
+    idleCallbacks = [];
+    originalRequestIdleCallback = globalThis.requestIdleCallback;
+    globalThis.requestIdleCallback = (callback: IdleRequestCallback) => idleCallbacks.push(callback);
+  });
+
+  afterEach(() => {
+    globalThis.requestIdleCallback = originalRequestIdleCallback;
+  });
+
+  /**
+   * Schedule a task that records its start and finishes when the returned handle says so
+   */
+  function track(scheduler: RequestScheduler, started: string[]) {
+    return (name: string, priority: 'critical' | 'normal' | 'background', signal?: AbortSignal, token?: object) => {
+      const done = deferred<string>();
+      const result = scheduler.schedule(priority, () => {
+        started.push(name);
+        return done.promise;
+      }, signal, token);
+      return { result, finish: () => done.resolve(name) };
+    };
+  }
+
+  it('caps concurrency and starts queued tasks by priority, then in order', async () => {
+    const started: string[] = [];
+    const scheduler = new RequestScheduler(1);
+    const schedule = track(scheduler, started);
+
+    const first = schedule('first', 'normal');
+    const second = schedule('second', 'normal');
+    const urgent = schedule('urgent', 'critical');
+    expect(started).toEqual(['first']);
+    expect(scheduler.getStats()).toEqual({ active: 1, queued: 2 });
+
+    first.finish();
+    await flush();
+    expect(started).toEqual(['first', 'urgent']);
+
+    urgent.finish();
+    await flush();
+    second.finish();
+    expect(await Promise.all([first.result, urgent.result, second.result])).toEqual(['first', 'urgent', 'second']);
+    expect(scheduler.getStats()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it('frees the slot when a task fails', async () => {
+    const started: string[] = [];
+    const scheduler = new RequestScheduler(1);
+    const failing = scheduler.schedule('normal', () => Promise.reject(new Error('offline')));
+    const next = track(scheduler, started)('next', 'normal');
+
+    await expectAsync(failing).toBeRejectedWithError('offline');
+    await flush();
+    expect(started).toEqual(['next']);
+    next.finish();
+    await next.result;
+  });
+
+  it('drops a queued task when its signal aborts, and never starts an already aborted one', async () => {
+    const started: string[] = [];
+    const scheduler = new RequestScheduler(1);
+    const schedule = track(scheduler, started);
+    const controller = new AbortController();
+
+    const running = schedule('running', 'normal');
+    const cancelled = schedule('cancelled', 'normal', controller.signal);
+    controller.abort();
+
+    await expectAsync(cancelled.result).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+    expect(scheduler.getStats().queued).toBe(0);
+    await expectAsync(schedule('late', 'normal', controller.signal).result).toBeRejected();
+
+    running.finish();
+    await running.result;
+    expect(started).toEqual(['running']);
+  });
+
+  it('promotes a queued task ahead of lower priorities, but never demotes it', async () => {
+    const started: string[] = [];
+    const scheduler = new RequestScheduler(1);
+    const schedule = track(scheduler, started);
+    const token = {};
+
+    const running = schedule('running', 'critical');
+    const normal = schedule('normal', 'normal');
+    const prefetch = schedule('prefetch', 'background', undefined, token);
+
+    scheduler.promote(token, 'background');
+    scheduler.promote(token, 'critical');
+    running.finish();
+    await flush();
+    expect(started).toEqual(['running', 'prefetch']);
+
+    prefetch.finish();
+    await flush();
+    normal.finish();
+    await Promise.all([normal.result, prefetch.result]);
+  });
+
+  it('holds background tasks until no critical work is left and the browser is idle', async () => {
+    const started: string[] = [];
+    const scheduler = new RequestScheduler(4);
+    const schedule = track(scheduler, started);
+
+    const critical = schedule('critical', 'critical');
+    const prefetch = schedule('prefetch', 'background');
+    const settled = jasmine.createSpy('settled');
+    scheduler.whenCriticalSettled().then(settled);
+    expect(started).toEqual(['critical']);
+    expect(idleCallbacks.length).toBe(0);
+
+    critical.finish();
+    await flush();
+    expect(settled).toHaveBeenCalled();
+    expect(started).toEqual(['critical']);
+    expect(idleCallbacks.length).toBe(1);
+
+    runIdle();
+    expect(started).toEqual(['critical', 'prefetch']);
+    prefetch.finish();
+    await prefetch.result;
+  });
+
+  it('resolves whenCriticalSettled right away without critical work', async () => {
+    const scheduler = new RequestScheduler(2);
+    const normal = track(scheduler, [])('normal', 'normal');
+    await expectAsync(scheduler.whenCriticalSettled()).toBeResolved();
+    normal.finish();
+    await normal.result;
+  });
+});
+
+describe('toAbortablePromise', () => {
+  it('resolves with the first value', async () => {
+    expect(await toAbortablePromise(of(1, 2))).toBe(1);
+  });
+
+  it('rejects when the source completes without a value', async () => {
+    await expectAsync(toAbortablePromise(EMPTY)).toBeRejectedWithError('Request completed without a response');
+  });
+
+  it('unsubscribes from the source when aborted', async () => {
+    const source = new Subject<number>();
+    const controller = new AbortController();
+    const result = toAbortablePromise(source, controller.signal);
+    expect(source.observed).toBeTrue();
+
+    controller.abort();
+    expect(source.observed).toBeFalse();
+    await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+  });
+
+  it('rejects immediately for an aborted signal without subscribing', async () => {
+    const source = new Subject<number>();
+    const controller = new AbortController();
+    controller.abort();
+    await expectAsync(toAbortablePromise(source, controller.signal)).toBeRejected();
+    expect(source.observed).toBeFalse();
+  });
+
+  it('tells abort errors apart from other failures', () => {
+    expect(isAbortError(createAbortError())).toBeTrue();
+    expect(isAbortError(new Error('AbortError'))).toBeFalse();
+    expect(isAbortError(new DOMException('Timed out', 'TimeoutError'))).toBeFalse();
+  });
+});
@@ -0,0 +1,242 @@
+import { Observable } from 'rxjs';
+
+/**
+ * Scheduling priority of a data request
+ * - critical: above-the-fold JSON, dispatched first
+ * - normal: everything else requested by the UI
+ * - background: prefetches and refreshes; dispatched only once no critical work
+ *   is queued or running and the main thread is idle
+ */
+export type RequestPriority = 'critical' | 'normal' | 'background';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  critical: 0,
+  normal: 1,
+  background: 2
+};
+
+/**
+ * Upper bound for waiting on an idle callback before background work starts anyway
+ */
+const IDLE_TIMEOUT_MS = 2_000;
+
+interface QueuedTask {
+  priority: RequestPriority;
+  /** Identifies the task for promote() */
+  token?: object;
+  start: () => void;
+}
+
+/**
+ * Error used to reject requests cancelled through an AbortSignal
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('Data request aborted', 'AbortError');
+}
+
+/**
+ * Check whether an error comes from a cancelled request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Take the first value of an Observable as a Promise; aborting unsubscribes,
+ * which cancels an in-flight HttpClient request
+ */
+export function toAbortablePromise<T>(source$: Observable<T>, signal?: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      subscription.unsubscribe();
+      reject(createAbortError());
+    };
+    const settle = () => signal?.removeEventListener('abort', onAbort);
+
+    let received = false;
+    const subscription = source$.subscribe({
+      next: value => {
+        if (received) return;
+        received = true;
+        settle();
+        resolve(value);
+      },
+      error: error => {
+        settle();
+        reject(error);
+      },
+      complete: () => {
+        settle();
+        if (!received) {
+          reject(new Error('Request completed without a response'));
+        }
+      }
+    });
+    if (!subscription.closed) {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
+/**
+ * Priority queue with a concurrency cap for DataLoadingService requests
+ */
+export class RequestScheduler {
+  private queue: QueuedTask[] = [];
+  private active = 0;
+  private activeCritical = 0;
+  private idlePending = false;
+  private criticalSettledWaiters: (() => void)[] = [];
+
+  constructor(private maxConcurrent: number) {}
+
+  /**
+   * Queue a task; it starts once a slot is free and no higher-priority task is waiting.
+   * Aborting the signal before the task starts removes it from the queue.
+   * @param token Optional handle for promoting the task while it is still queued
+   */
+  schedule<T>(priority: RequestPriority, task: () => Promise<T>, signal?: AbortSignal, token?: object): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        priority,
+        token,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          const startedAs = queued.priority;
+          this.active++;
+          if (startedAs === 'critical') this.activeCritical++;
+
+          task().then(resolve, reject).finally(() => {
+            this.active--;
+            if (startedAs === 'critical') this.activeCritical--;
+            this.notifyCriticalSettled();
+            this.drain();
+          });
+        }
+      };
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(queued);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          reject(createAbortError());
+          this.notifyCriticalSettled();
+          this.drain();
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.enqueue(queued);
+      this.drain();
+    });
+  }
+
+  /**
+   * Raise the priority of a queued task, e.g. when a user action joins a pending prefetch.
+   * Running tasks and lower priorities are left alone.
+   */
+  promote(token: object, priority: RequestPriority): void {
+    const index = this.queue.findIndex(task => task.token === token);
+    if (index < 0 || PRIORITY_ORDER[priority] >= PRIORITY_ORDER[this.queue[index].priority]) {
+      return;
+    }
+
+    const [task] = this.queue.splice(index, 1);
+    task.priority = priority;
+    this.enqueue(task);
+    this.drain();
+  }
+
+  /**
+   * Resolve once no critical task is queued or running
+   */
+  whenCriticalSettled(): Promise<void> {
+    if (!this.hasCriticalWork()) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.criticalSettledWaiters.push(resolve));
+  }
+
+  /**
+   * Queue statistics for monitoring
+   */
+  getStats(): { active: number; queued: number } {
+    return { active: this.active, queued: this.queue.length };
+  }
+
+  // ==========================================
+  // PRIVATE IMPLEMENTATION
+  // ==========================================
+
+  private enqueue(task: QueuedTask): void {
+    const index = this.queue.findIndex(other =>
+      PRIORITY_ORDER[other.priority] > PRIORITY_ORDER[task.priority]
+    );
+    if (index < 0) {
+      this.queue.push(task);
+    } else {
+      this.queue.splice(index, 0, task);
+    }
+  }
+
+  /**
+   * Start queued tasks while slots are free.
+   * Background tasks additionally wait for the critical set to settle and for an idle period.
+   */
+  private drain(fromIdle = false): void {
+    while (this.active < this.maxConcurrent && this.queue.length > 0) {
+      const next = this.queue[0];
+      if (next.priority === 'background') {
+        if (this.hasCriticalWork()) {
+          return;
+        }
+        if (!fromIdle) {
+          this.drainWhenIdle();
+          return;
+        }
+      }
+      this.queue.shift();
+      next.start();
+    }
+  }
+
+  private drainWhenIdle(): void {
+    if (this.idlePending) {
+      return;
+    }
+    this.idlePending = true;
+
+    const run = () => {
+      this.idlePending = false;
+      this.drain(true);
+    };
+
+    if (typeof requestIdleCallback === 'function') {
+      requestIdleCallback(run, { timeout: IDLE_TIMEOUT_MS });
+    } else {
+      setTimeout(run, 200);
+    }
+  }
+
+  private hasCriticalWork(): boolean {
+    return this.activeCritical > 0 || this.queue.some(task => task.priority === 'critical');
+  }
+
+  private notifyCriticalSettled(): void {
+    if (this.hasCriticalWork() || this.criticalSettledWaiters.length === 0) {
+      return;
+    }
+    const waiters = this.criticalSettledWaiters;
+    this.criticalSettledWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}